@@ -0,0 +1,313 @@
+import cluster from 'cluster';
+import type { Worker } from 'cluster';
+import { randomUUID } from 'crypto';
+import type { InternalMessage, Message } from './type';
+
+/**
+ * 远程节点上的客户端信息
+ */
+export interface RemoteClient {
+  id: string;
+  groups: string[];
+}
+
+/**
+ * 节点之间传输的数据包
+ * 所有数据包都带有发送节点 ID（from），带有 to 的数据包只发给目标节点
+ */
+export type AdapterPacket =
+  /** 新节点上线，请求其他节点同步客户端信息 */
+  | { type: 'hello'; from: string }
+  /** 同步节点上的全部客户端信息 */
+  | { type: 'sync'; from: string; to?: string; clients: RemoteClient[] }
+  /** 客户端上线或分组变更 */
+  | { type: 'client'; from: string; client: RemoteClient }
+  /** 客户端下线 */
+  | { type: 'client-leave'; from: string; id: string }
+  /** 节点下线，其他节点应移除该节点上的所有客户端 */
+  | { type: 'node-down'; from: string; nodeId: string }
+  /** 跨节点广播，各节点发送给本节点上匹配的客户端 */
+  | {
+      type: 'broadcast';
+      from: string;
+      message: InternalMessage;
+      groups?: string[];
+      except: string[];
+    }
+  /** 跨节点发布主题消息，各节点发送给本节点上订阅了该主题的客户端 */
+  | {
+      type: 'publish';
+      from: string;
+      topic: string;
+      message: InternalMessage;
+    }
+  /** 将请求转发给客户端所在的节点 */
+  | {
+      type: 'fetch';
+      from: string;
+      to: string;
+      clientId: string;
+      message: InternalMessage;
+      maxWait: number;
+    }
+  /** 被转发请求的结果 */
+  | {
+      type: 'fetch-reply';
+      from: string;
+      to: string;
+      fetchId: string;
+      body?: Message;
+      error?: string;
+    }
+  /** 取消转发给其他节点的请求 */
+  | { type: 'cancel'; from: string; to: string; fetchId: string }
+  /** 修改其他节点上客户端的分组 */
+  | {
+      type: 'group';
+      from: string;
+      to: string;
+      op: 'add' | 'remove';
+      group: string;
+      id: string;
+    };
+
+/**
+ * 多节点适配器接口
+ * 负责在多个 MasSocketServer 实例之间传递数据包，跨节点广播、分组同步和请求路由由服务器完成
+ */
+export interface MasSocketAdapter {
+  /** 当前节点 ID，在所有节点中唯一 */
+  readonly nodeId: string;
+  /**
+   * 发送数据包
+   * 数据包带有 to 时只发给目标节点，否则发给除自己以外的所有节点
+   */
+  publish(packet: AdapterPacket): void;
+  /**
+   * 注册数据包监听
+   * @param listener - 收到其他节点的数据包时调用
+   */
+  onPacket(listener: (packet: AdapterPacket) => void): void;
+  /**
+   * 关闭适配器
+   * 通知其他节点本节点已下线，之后不再收发数据包
+   */
+  close(): void;
+}
+
+/**
+ * 同一进程内的内存频道：频道名 -> 加入该频道的适配器
+ */
+const memoryChannels: Map<string, Set<MemoryAdapter>> = new Map();
+
+/**
+ * 内存适配器（参考实现）
+ * 同一进程内、使用相同频道名的多个 MasSocketServer 实例之间互相通信，
+ * 适用于测试和单进程多实例场景
+ */
+export class MemoryAdapter implements MasSocketAdapter {
+  readonly nodeId: string = randomUUID();
+  private listeners: ((packet: AdapterPacket) => void)[] = [];
+  private closed: boolean = false;
+
+  /**
+   * @param channel - 频道名，只有相同频道的适配器之间才会通信，默认为 'default'
+   */
+  constructor(private channel: string = 'default') {
+    if (!memoryChannels.has(channel)) {
+      memoryChannels.set(channel, new Set());
+    }
+    memoryChannels.get(channel)!.add(this);
+  }
+
+  publish(packet: AdapterPacket): void {
+    if (this.closed) return;
+
+    for (const peer of memoryChannels.get(this.channel) ?? []) {
+      if (peer === this) continue;
+      if ('to' in packet && packet.to && packet.to !== peer.nodeId) continue;
+
+      // 复制数据包并异步投递，模拟真实的跨进程传输
+      const copy = structuredClone(packet);
+      queueMicrotask(() => peer.deliver(copy));
+    }
+  }
+
+  onPacket(listener: (packet: AdapterPacket) => void): void {
+    this.listeners.push(listener);
+  }
+
+  close(): void {
+    if (this.closed) return;
+    this.publish({ type: 'node-down', from: this.nodeId, nodeId: this.nodeId });
+    this.closed = true;
+
+    const peers = memoryChannels.get(this.channel);
+    if (peers) {
+      peers.delete(this);
+      if (peers.size === 0) {
+        memoryChannels.delete(this.channel);
+      }
+    }
+  }
+
+  /**
+   * 投递来自其他节点的数据包
+   */
+  private deliver(packet: AdapterPacket): void {
+    if (this.closed) return;
+    for (const listener of this.listeners) {
+      listener(packet);
+    }
+  }
+}
+
+/**
+ * cluster IPC 消息的标识字段，用于区分其他 IPC 消息
+ */
+const CLUSTER_MESSAGE_KEY = '__masSocketAdapter';
+
+/**
+ * cluster IPC 消息格式
+ */
+interface ClusterMessage {
+  [CLUSTER_MESSAGE_KEY]: string;
+  packet: AdapterPacket;
+}
+
+/**
+ * 判断 IPC 消息是否为适配器消息
+ */
+function isClusterMessage(message: any): message is ClusterMessage {
+  return (
+    !!message &&
+    typeof message === 'object' &&
+    typeof message[CLUSTER_MESSAGE_KEY] === 'string'
+  );
+}
+
+/**
+ * cluster 适配器
+ * 基于 Node.js cluster 模块的 IPC 通道，在同一台机器的多个 worker 进程之间通信，无需 Redis 等外部服务
+ * - 主进程需在 fork 之前调用 ClusterAdapter.setupPrimary() 负责转发数据包
+ * - 每个 worker 进程中创建一个 ClusterAdapter 并传给 MasSocketServer.setAdapter
+ */
+export class ClusterAdapter implements MasSocketAdapter {
+  readonly nodeId: string = randomUUID();
+  private listeners: ((packet: AdapterPacket) => void)[] = [];
+  private closed: boolean = false;
+
+  /**
+   * @param channel - 频道名，只有相同频道的适配器之间才会通信，默认为 'default'
+   */
+  constructor(private channel: string = 'default') {
+    if (!cluster.isWorker || !process.send) {
+      throw new Error(
+        'ClusterAdapter must be created in a cluster worker process'
+      );
+    }
+    process.on('message', this.handleMessage);
+  }
+
+  publish(packet: AdapterPacket): void {
+    if (this.closed) return;
+    const message: ClusterMessage = {
+      [CLUSTER_MESSAGE_KEY]: this.channel,
+      packet,
+    };
+    process.send!(message);
+  }
+
+  onPacket(listener: (packet: AdapterPacket) => void): void {
+    this.listeners.push(listener);
+  }
+
+  close(): void {
+    if (this.closed) return;
+    this.publish({ type: 'node-down', from: this.nodeId, nodeId: this.nodeId });
+    this.closed = true;
+    process.off('message', this.handleMessage);
+  }
+
+  /**
+   * 处理主进程转发的 IPC 消息
+   */
+  private handleMessage = (message: any): void => {
+    if (this.closed || !isClusterMessage(message)) return;
+    if (message[CLUSTER_MESSAGE_KEY] !== this.channel) return;
+
+    const { packet } = message;
+    if (packet.from === this.nodeId) return;
+    if ('to' in packet && packet.to && packet.to !== this.nodeId) return;
+
+    for (const listener of this.listeners) {
+      listener(packet);
+    }
+  };
+
+  /**
+   * 在主进程中设置数据包转发
+   * 需在 cluster.fork() 之前调用；worker 退出时会自动通知其他 worker 该节点已下线
+   */
+  static setupPrimary(): void {
+    if (!cluster.isPrimary) {
+      throw new Error(
+        'ClusterAdapter.setupPrimary must be called in the primary process'
+      );
+    }
+
+    // 使用 advanced 序列化，使 Buffer / Uint8Array 等二进制数据可以在进程间传递
+    cluster.setupPrimary({ serialization: 'advanced' });
+
+    /** worker ID -> 该 worker 上的节点（节点 ID -> 频道名） */
+    const workerNodes: Map<number, Map<string, string>> = new Map();
+    /** 节点 ID -> 所在的 worker */
+    const nodeWorkers: Map<string, Worker> = new Map();
+
+    const forward = (sender: Worker | null, message: ClusterMessage) => {
+      const { packet } = message;
+      const target =
+        'to' in packet && packet.to ? nodeWorkers.get(packet.to) : undefined;
+      for (const worker of Object.values(cluster.workers ?? {})) {
+        if (!worker || worker === sender || !worker.isConnected()) continue;
+        if (target && worker !== target) continue;
+        worker.send(message);
+      }
+    };
+
+    cluster.on('message', (worker, message) => {
+      if (!isClusterMessage(message)) return;
+
+      const { packet } = message;
+      if (packet.type === 'node-down') {
+        workerNodes.get(worker.id)?.delete(packet.nodeId);
+        nodeWorkers.delete(packet.nodeId);
+      } else {
+        if (!workerNodes.has(worker.id)) {
+          workerNodes.set(worker.id, new Map());
+        }
+        workerNodes
+          .get(worker.id)!
+          .set(packet.from, message[CLUSTER_MESSAGE_KEY]);
+        nodeWorkers.set(packet.from, worker);
+      }
+
+      forward(worker, message);
+    });
+
+    // worker 异常退出时，代替其通知其他节点
+    cluster.on('exit', (worker) => {
+      const nodes = workerNodes.get(worker.id);
+      workerNodes.delete(worker.id);
+      if (!nodes) return;
+
+      for (const [nodeId, channel] of nodes) {
+        nodeWorkers.delete(nodeId);
+        forward(worker, {
+          [CLUSTER_MESSAGE_KEY]: channel,
+          packet: { type: 'node-down', from: nodeId, nodeId },
+        });
+      }
+    });
+  }
+}
@@ -0,0 +1,65 @@
+import { WebSocket as NodeWebSocket } from 'ws';
+import type { ClientOptions } from 'ws';
+import type { Agent } from 'http';
+import type { SecureContextOptions } from 'tls';
+import MasSocketClinet from './client';
+import type { AnyEvents, EventContract, EventMap } from './events';
+
+/**
+ * Node.js / Bun 客户端的连接选项，作用于 WebSocket 升级请求
+ */
+export interface NodeClientOptions {
+  /**
+   * 升级请求携带的 HTTP 头部，如 authorization、cookie
+   * 传入函数时每次连接（包括自动重连）都会重新获取，适用于会过期的令牌
+   */
+  headers?: Record<string, string> | (() => Record<string, string>);
+  /** 自定义 agent，如 https-proxy-agent 创建的代理 agent */
+  agent?: Agent;
+  /** TLS 选项（连接 wss:// 时使用），如自签名证书的 ca、双向认证的 cert / key */
+  tls?: SecureContextOptions &
+    Pick<ClientOptions, 'rejectUnauthorized' | 'checkServerIdentity'>;
+  /** 握手超时时间（毫秒），默认不限制（仍受 maxConnectTimeout 限制） */
+  handshakeTimeout?: number;
+}
+
+/**
+ * MasSocket 客户端类（Node.js / Bun 版本）
+ * 基于 ws 实现，API 与浏览器版本相同，额外支持在升级请求上设置头部、代理和 TLS 选项，
+ * 适用于后端服务之间的通信和集成测试
+ */
+class MasSocketNodeClinet<
+  E extends EventMap = AnyEvents,
+> extends MasSocketClinet<E> {
+  /**
+   * 连接选项，修改后在下次连接（包括自动重连）时生效
+   */
+  options: NodeClientOptions;
+
+  /**
+   * @param options - 连接选项（头部、代理、TLS 等）
+   * @param events - 事件约定（defineEvents 的返回值），仅用于推导事件表类型
+   */
+  constructor(options: NodeClientOptions = {}, events?: EventContract<E>) {
+    super(events);
+    this.options = options;
+  }
+
+  protected override createWebSocket(
+    url: string,
+    protocols: string[]
+  ): WebSocket {
+    const { headers, agent, tls, handshakeTimeout } = this.options;
+    const ws = new NodeWebSocket(url, protocols, {
+      ...tls,
+      headers: typeof headers === 'function' ? headers() : headers,
+      agent,
+      handshakeTimeout,
+    });
+    // ws 的事件接口与浏览器 WebSocket 兼容
+    return ws as unknown as WebSocket;
+  }
+}
+
+export default MasSocketNodeClinet;
+export * from './client';
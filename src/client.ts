@@ -0,0 +1,1363 @@
+import type {
+  ClientDisconnectInfo,
+  FetchConfig,
+  Message,
+  InternalMessage,
+  PendingFetch,
+  ReconnectConfig,
+  RetryCondition,
+  RetryConfig,
+} from './type';
+import { builtinCodecs, getCodecProtocol, jsonCodec } from './codec';
+import type { CodecName, MasSocketCodec } from './codec';
+import { FetchStream } from './stream';
+import { IDEMPOTENCY_HEADER } from './idempotency';
+import { CloseCode } from './close';
+import { getResumeProtocol } from './resume';
+import { createConsoleLogger } from './logger';
+import type { Logger } from './logger';
+import { validateReply } from './schema';
+import { EventDispatcher } from './dispatcher';
+import type {
+  BaseEventContext,
+  ContextHandler,
+  ContextHandlerOptions,
+  ContextMiddleware,
+} from './dispatcher';
+import type { RoutePattern } from './pattern';
+import type {
+  AnyEvents,
+  EventContract,
+  EventMap,
+  EventName,
+  EventRequest,
+  EventResponse,
+} from './events';
+
+/**
+ * 服务器客户端配置接口
+ * 用于配置客户端的连接行为
+ */
+interface ServerClinetConfig {
+  /** 最大重连次数，当连接断开时会自动尝试重连，超过此次数后停止重连，设为 Infinity 时无限重连 */
+  maxReconnectCount: number;
+  /** 自动重连策略（退避、最大等待时间、随机抖动） */
+  reconnect: ReconnectConfig;
+  /** 最大连接超时时间（毫秒），连接服务器时的超时限制 */
+  maxConnectTimeout: number;
+  /** 是否启用离线队列，启用后连接中/重连中发出的请求会被缓存，连接成功后按顺序发送 */
+  offlineQueue: boolean;
+  /** 离线队列最大长度，队列已满时新的请求直接失败 */
+  maxQueueSize: number;
+  /** 离线消息的默认有效期（毫秒），可通过 FetchConfig.expire 单独设置 */
+  queueExpire: number;
+  /**
+   * 优先使用的编解码器，连接时与服务器协商，服务器不支持时回退到 JSON
+   * 可以是内置编解码器名称（'json'、'msgpack'、'cbor'）或自定义编解码器
+   */
+  codec: CodecName | MasSocketCodec;
+  /**
+   * 不自动重连的关闭码，默认为 CloseCode.KICKED 和 CloseCode.BANNED
+   * 服务器以这些关闭码断开连接时停止重连，离线队列中的消息直接失败
+   */
+  noReconnectCodes: number[];
+}
+
+/**
+ * 静态服务器客户端配置接口
+ * 包含连接状态和 URL 信息
+ */
+interface staticServerClinetConfig {
+  /** WebSocket 服务器地址 */
+  url: string;
+  /** 当前连接状态 */
+  status: 'connecting' | 'connected' | 'disconnected';
+}
+
+/**
+ * 完整的客户端配置类型
+ * 合并了可配置项和静态状态
+ */
+type MasSocketServerClinetConfig = ServerClinetConfig &
+  staticServerClinetConfig;
+
+/**
+ * 浏览器中用于监听网络状态和页面可见性的全局对象，其他运行环境中不存在
+ */
+interface BrowserGlobals {
+  addEventListener?: (type: string, listener: () => void) => void;
+  removeEventListener?: (type: string, listener: () => void) => void;
+  document?: {
+    visibilityState: string;
+    addEventListener: (type: string, listener: () => void) => void;
+    removeEventListener: (type: string, listener: () => void) => void;
+  };
+  navigator?: { onLine?: boolean };
+}
+
+const browserGlobals = globalThis as unknown as BrowserGlobals;
+
+/**
+ * 离线队列中的消息
+ */
+interface QueuedMessage {
+  message: InternalMessage;
+  /** 有效期定时器，到期后从队列中移除 */
+  timer: ReturnType<typeof setTimeout>;
+  /** 消息被丢弃时的回调（用于让对应的 fetch 失败） */
+  onDrop?: (error: Error) => void;
+}
+
+/**
+ * 主题消息监听器类型
+ */
+type TopicListener<T = any> = (data: T, topic: string) => void;
+
+/**
+ * 事件处理器的回复数据：未约定事件时为 any，否则为完整的 Message
+ */
+type HandlerReply<Res> = 0 extends 1 & Res ? any : Message<Res>;
+
+/**
+ * 事件处理器类型
+ * Req / Res 为事件约定中的请求和回复数据类型，未约定时均为 any
+ */
+type EventHandler<Req = any, Res = any> = ContextHandler<
+  EventContext<Req, Res>
+>;
+
+/**
+ * 事件上下文，中间件和事件处理器共用同一个对象
+ * 与服务器的事件上下文相比没有 user 和 stream，reply 不需要传入状态码
+ */
+interface EventContext<Req = any, Res = any> extends BaseEventContext<Req> {
+  /**
+   * 回复服务器，只有第一次调用生效
+   * 回复会在所有中间件执行完后发送，中间件可在 await next() 之后通过 response 检查或修改
+   * 处理器回复后 next() 立即返回，回复不等待处理器之后的工作
+   */
+  reply: (data: HandlerReply<Res>, headers?: Record<string, string>) => void;
+}
+
+/**
+ * 中间件类型（洋葱模型）
+ * 调用 await next() 执行下游的中间件和事件处理器，之后可以检查或修改 ctx.response
+ * 不调用 next 且没有回复时，自动继续执行下游
+ */
+type Middleware = ContextMiddleware<EventContext>;
+
+/**
+ * 带数据校验的事件处理器
+ */
+type EventHandlerOptions<Req = any, Res = any> = ContextHandlerOptions<
+  Req,
+  EventHandler<Req, Res>
+>;
+
+/**
+ * fetch 的类型：按事件约定推导请求数据和回复类型，hasReply 为 false 时没有返回值
+ */
+type ClientFetch<E extends EventMap> = <
+  K extends EventName<E>,
+  HasReply extends boolean = true,
+>(
+  event: K,
+  data: EventRequest<E, K>,
+  config?: FetchConfig & { hasReply?: HasReply }
+) => Promise<HasReply extends false ? void : Message<EventResponse<E, K>>>;
+
+/**
+ * MasSocket 客户端类
+ * 协议和请求处理由浏览器版本和 Node.js / Bun 版本共用，默认使用全局的 WebSocket，无需额外依赖
+ */
+class MasSocketClinet<E extends EventMap = AnyEvents> {
+  private ws: WebSocket | null = null;
+  /** 事件处理器和中间件 */
+  private dispatcher: EventDispatcher<EventContext> = new EventDispatcher();
+  private pendingFetches: Map<string, PendingFetch> = new Map();
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectCount: number = 0;
+  /** 服务器关闭前建议的重连延迟（毫秒），下一次重连时使用 */
+  private shutdownDelay: number = 0;
+  private shouldReconnect: boolean = false;
+  private connectTimeout: ReturnType<typeof setTimeout> | null = null;
+  /** 离线队列，按发送顺序排列 */
+  private offlineQueue: QueuedMessage[] = [];
+  /** 当前会话信息，重连时用于恢复会话 */
+  private session: { id: string; resumeToken: string } | null = null;
+  /** 已订阅的主题，建立新会话后自动重新订阅 */
+  private subscriptions: Set<string> = new Set();
+  /** 主题 -> 消息监听器 */
+  private topicListeners: Map<string, Set<TopicListener>> = new Map();
+  /** 进行中的流式请求：fetchId -> 流 */
+  private streams: Map<string, FetchStream> = new Map();
+  /** 正在处理的服务器请求：fetchId -> 取消控制器 */
+  private controllers: Map<string, AbortController> = new Map();
+  /** 当前连接协商的编解码器 */
+  private codec: MasSocketCodec = jsonCodec;
+
+  /**
+   * @param _events - 事件约定（defineEvents 的返回值），仅用于推导事件表类型
+   */
+  constructor(_events?: EventContract<E>) {}
+
+  /**
+   * 客户端私有配置
+   * 包含连接参数和当前状态
+   */
+  private config: MasSocketServerClinetConfig = {
+    maxReconnectCount: 5,
+    reconnect: {},
+    maxConnectTimeout: 10000,
+    offlineQueue: false,
+    maxQueueSize: 100,
+    queueExpire: 30000,
+    codec: 'json',
+    noReconnectCodes: [CloseCode.KICKED, CloseCode.BANNED],
+    url: '',
+    status: 'disconnected',
+  };
+
+  /**
+   * 默认的请求配置
+   * 当调用 fetch 时，如果没有提供 config 参数，将使用此配置
+   */
+  fetchConfig: FetchConfig = {
+    maxWait: 10000,
+    hasReply: true,
+    code: 200,
+    msg: 'success',
+  };
+
+  /**
+   * 默认请求头
+   * 会附加到所有通过 fetch 发出的请求上，
+   * 与 FetchConfig.headers 合并（同名时以 FetchConfig.headers 为准）
+   */
+  defaultHeaders: Record<string, string> = {};
+
+  /**
+   * 日志记录器，默认输出 warn 及以上级别到 console
+   * 可以替换为 pino 等日志库的实例，或使用 silentLogger 关闭日志
+   */
+  logger: Logger = createConsoleLogger('warn');
+
+  /**
+   * 生成唯一的请求 ID
+   */
+  private generateFetchId(): string {
+    const cryptoApi = globalThis.crypto;
+    if (cryptoApi && typeof cryptoApi.randomUUID === 'function') {
+      return cryptoApi.randomUUID();
+    }
+    return `${Date.now()}-${Math.random().toString(16).slice(2)}`;
+  }
+
+  /**
+   * 发送消息到服务器
+   */
+  private sendMessage(message: InternalMessage): void {
+    if (this.ws && this.ws.readyState === this.ws.OPEN) {
+      this.ws.send(this.codec.encode(message));
+    } else {
+      throw new Error('WebSocket is not connected');
+    }
+  }
+
+  /**
+   * 当前是否可以将消息放入离线队列
+   * 仅在启用离线队列且正在连接或等待自动重连时可用
+   */
+  private canQueue(): boolean {
+    return (
+      this.config.offlineQueue &&
+      (this.config.status === 'connecting' || this.shouldReconnect)
+    );
+  }
+
+  /**
+   * 发送消息，未连接时放入离线队列
+   * @param expire - 消息在离线队列中的有效期（毫秒）
+   * @param onDrop - 消息过期或被清空时的回调
+   */
+  private dispatch(
+    message: InternalMessage,
+    expire: number,
+    onDrop?: (error: Error) => void
+  ): void {
+    if (this.config.status === 'connected') {
+      this.sendMessage(message);
+      return;
+    }
+
+    if (this.offlineQueue.length >= this.config.maxQueueSize) {
+      throw new Error(
+        `Offline queue is full (max ${this.config.maxQueueSize} messages)`
+      );
+    }
+
+    const item: QueuedMessage = {
+      message,
+      timer: setTimeout(() => {
+        const index = this.offlineQueue.indexOf(item);
+        if (index > -1) {
+          this.offlineQueue.splice(index, 1);
+          item.onDrop?.(new Error(`Queued message expired after ${expire}ms`));
+        }
+      }, expire),
+      onDrop,
+    };
+    this.offlineQueue.push(item);
+  }
+
+  /**
+   * 按顺序发送离线队列中的消息
+   */
+  private flushQueue(): void {
+    const queue = this.offlineQueue;
+    this.offlineQueue = [];
+    for (const { message, timer } of queue) {
+      clearTimeout(timer);
+      // 对应的 fetch 已超时（或流已取消），无需再发送
+      if (
+        message.fetchId &&
+        !this.pendingFetches.has(message.fetchId) &&
+        !this.streams.has(message.fetchId)
+      ) {
+        continue;
+      }
+      this.sendMessage(message);
+    }
+  }
+
+  /**
+   * 清空离线队列，队列中的请求以指定原因失败
+   */
+  private clearQueue(reason: string): void {
+    const queue = this.offlineQueue;
+    this.offlineQueue = [];
+    for (const { timer, onDrop } of queue) {
+      clearTimeout(timer);
+      onDrop?.(new Error(reason));
+    }
+  }
+
+  /**
+   * 处理收到的消息
+   */
+  private async handleMessage(rawMessage: string | Uint8Array): Promise<void> {
+    let message: InternalMessage;
+    try {
+      message = this.codec.decode(rawMessage);
+    } catch (error) {
+      this.logger.warn({ err: error }, 'Failed to parse message');
+      return;
+    }
+
+    const { type, event, fetchId = '', body, header = {} } = message;
+
+    if (type === 'event' && event === '_system_id') {
+      // 记录会话恢复令牌（服务器启用会话恢复时下发）
+      if (body?.data?.resumeToken) {
+        this.session = {
+          id: body.data.id,
+          resumeToken: body.data.resumeToken,
+        };
+      }
+      // 建立了新会话，服务器端的订阅已丢失，需要重新订阅
+      if (!body?.data?.resumed) {
+        this.resubscribe();
+      }
+    }
+
+    // 服务器即将关闭，断开后按建议的延迟重连，避免所有客户端同时重连
+    if (type === 'event' && event === '_system_shutdown') {
+      this.shutdownDelay = Number(body?.data?.reconnectDelay) || 0;
+    }
+
+    // 主题消息只分发给 onTopic 监听器
+    if (type === 'event' && event === '_system_publish') {
+      const { topic, data } = body.data ?? {};
+      for (const listener of this.topicListeners.get(topic) ?? []) {
+        try {
+          listener(data, topic);
+        } catch (error) {
+          this.logger.error({ topic, err: error }, 'Topic listener error');
+        }
+      }
+      return;
+    }
+
+    // 服务器取消请求，中止对应处理器的 signal
+    if (type === 'cancel' && fetchId) {
+      this.controllers.get(fetchId)?.abort(new Error('Request cancelled'));
+      this.controllers.delete(fetchId);
+      return;
+    }
+
+    // 流式回复的分块
+    if (type === 'chunk' && fetchId) {
+      this.streams.get(fetchId)?.push(body.data);
+      return;
+    }
+
+    // 流式请求的最终回复
+    if (type === 'reply' && fetchId && this.streams.has(fetchId)) {
+      const stream = this.streams.get(fetchId)!;
+      this.streams.delete(fetchId);
+      stream.finish(
+        Object.keys(header).length > 0 ? { ...body, header } : body
+      );
+      return;
+    }
+
+    // 如果是回复消息，处理待处理的请求
+    if (type === 'reply' && fetchId) {
+      const pending = this.pendingFetches.get(fetchId);
+      if (pending) {
+        clearTimeout(pending.timeout);
+        this.pendingFetches.delete(fetchId);
+        pending.resolve(
+          Object.keys(header).length > 0 ? { ...body, header } : body
+        );
+      }
+      return;
+    }
+
+    // 如果是事件消息，执行中间件和事件处理器
+    if (type === 'event' && event) {
+      const controller = new AbortController();
+      const { signal } = controller;
+      if (fetchId) {
+        this.controllers.set(fetchId, controller);
+      }
+
+      await this.dispatcher.dispatch(
+        (respond) => ({
+          reply: (data: any, headers?: Record<string, string>) => {
+            respond(
+              headers && data && typeof data === 'object'
+                ? { ...data, header: headers }
+                : data
+            );
+          },
+          body,
+          fetchId,
+          header,
+          event,
+          params: {},
+          signal,
+          state: {},
+        }),
+        {
+          send: (response: any) => {
+            this.controllers.delete(fetchId);
+
+            let body = response;
+            let headers: Record<string, string> | undefined;
+            if (
+              response &&
+              typeof response === 'object' &&
+              'header' in response
+            ) {
+              ({ header: headers, ...body } = response);
+            }
+            this.sendMessage({
+              type: 'reply',
+              fetchId,
+              body,
+              header: headers,
+            });
+          },
+          logger: this.logger,
+          logFields: { event, fetchId },
+        }
+      );
+    }
+  }
+
+  /**
+   * 重新订阅所有已订阅的主题
+   */
+  private resubscribe(): void {
+    for (const topic of this.subscriptions) {
+      this.fetchSystem('_system_subscribe', { topic }).catch((error) => {
+        this.logger.warn({ topic, err: error }, 'Resubscribe failed');
+      });
+    }
+  }
+
+  /**
+   * 获取本次连接请求的子协议
+   * 存在会话信息时附带客户端 ID 和恢复令牌，用于在服务器端恢复会话
+   * @param codecs - 用于协商的编解码器
+   */
+  private getProtocols(codecs: MasSocketCodec[]): string[] {
+    const protocols = codecs.map(getCodecProtocol);
+    if (this.session) {
+      // 请求了子协议时服务器必须选择其中一个，因此需要显式提供 JSON
+      if (protocols.length === 0) {
+        protocols.push(getCodecProtocol(jsonCodec));
+      }
+      protocols.push(
+        getResumeProtocol(this.session.id, this.session.resumeToken)
+      );
+    }
+    return protocols;
+  }
+
+  /**
+   * 获取配置中优先使用的编解码器
+   */
+  private getPreferredCodec(): MasSocketCodec {
+    const { codec } = this.config;
+    if (typeof codec !== 'string') {
+      return codec;
+    }
+    if (!(codec in builtinCodecs)) {
+      throw new Error(`Unknown codec: ${codec}`);
+    }
+    return builtinCodecs[codec];
+  }
+
+  /**
+   * 设置 WebSocket 连接
+   */
+  private setupWebSocket(): void {
+    if (!this.config.url) {
+      throw new Error('URL is not set');
+    }
+
+    // 清除连接超时
+    if (this.connectTimeout) {
+      clearTimeout(this.connectTimeout);
+      this.connectTimeout = null;
+    }
+
+    // 设置连接超时
+    this.connectTimeout = setTimeout(() => {
+      if (this.config.status === 'connecting') {
+        this.ws?.close();
+        this.handleReconnect();
+      }
+    }, this.config.maxConnectTimeout);
+
+    // 通过子协议协商编解码器，同时提供 JSON 作为回退
+    const preferred = this.getPreferredCodec();
+    const codecs = preferred === jsonCodec ? [] : [preferred, jsonCodec];
+    this.ws = this.createWebSocket(this.config.url, this.getProtocols(codecs));
+    this.ws.binaryType = 'arraybuffer';
+
+    this.ws.addEventListener('open', () => {
+      if (this.connectTimeout) {
+        clearTimeout(this.connectTimeout);
+        this.connectTimeout = null;
+      }
+      this.codec =
+        codecs.find((codec) => getCodecProtocol(codec) === this.ws?.protocol) ??
+        jsonCodec;
+      this.config.status = 'connected';
+      const reconnected = this.reconnectCount > 0;
+      this.logger.info({ codec: this.codec.name, reconnected }, 'Connected');
+      this.reconnectCount = 0;
+      this.flushQueue();
+      if (reconnected) {
+        this.onReconnected();
+      }
+    });
+
+    this.ws.addEventListener('message', async (event) => {
+      let data: string | Uint8Array | null = null;
+      const payload = event.data;
+
+      if (typeof payload === 'string') {
+        data = payload;
+      } else if (payload instanceof Blob) {
+        data = new Uint8Array(await payload.arrayBuffer());
+      } else if (payload instanceof ArrayBuffer) {
+        data = new Uint8Array(payload);
+      } else if (ArrayBuffer.isView(payload)) {
+        data = new Uint8Array(
+          payload.buffer,
+          payload.byteOffset,
+          payload.byteLength
+        );
+      }
+
+      if (data === null) {
+        this.logger.warn({}, 'Unsupported message data type');
+        return;
+      }
+
+      this.handleMessage(data).catch((error) => {
+        this.logger.error({ err: error }, 'Error handling message');
+      });
+    });
+
+    this.ws.addEventListener('close', (event) => {
+      this.config.status = 'disconnected';
+      // 服务器在连接断开时会取消所有流式回复
+      this.failStreams('Connection closed');
+      this.handleDisconnect(event.code, event.reason);
+    });
+
+    // error 之后总会触发 close，断开和重连统一在 close 中处理，以获得真实的关闭码
+    this.ws.addEventListener('error', (error) => {
+      this.logger.warn({ err: error }, 'WebSocket error');
+      if (this.connectTimeout) {
+        clearTimeout(this.connectTimeout);
+        this.connectTimeout = null;
+      }
+      this.config.status = 'disconnected';
+    });
+  }
+
+  /**
+   * 连接断开后决定是否重连，并触发 onDisconnect
+   * 关闭码在 noReconnectCodes 中时（如被踢出、被封禁）不再重连
+   */
+  private handleDisconnect(code: number, reason: string): void {
+    if (this.shouldReconnect && this.config.noReconnectCodes.includes(code)) {
+      this.shouldReconnect = false;
+      this.session = null;
+      this.clearQueue(`Connection closed by server (${code})`);
+    }
+    this.handleReconnect();
+    this.logger.info(
+      { code, reason, reconnect: this.shouldReconnect },
+      'Disconnected'
+    );
+    this.onDisconnect({ code, reason, reconnect: this.shouldReconnect });
+  }
+
+  /**
+   * 创建 WebSocket 连接
+   * 默认使用全局的 WebSocket，其他运行环境的客户端可以覆盖此方法
+   * @param url - 连接地址
+   * @param protocols - 子协议（用于协商编解码器和恢复会话）
+   */
+  protected createWebSocket(url: string, protocols: string[]): WebSocket {
+    return new WebSocket(url, protocols);
+  }
+
+  /**
+   * 处理自动重连
+   * 已安排重连时不会重复安排；浏览器离线时不消耗重连次数，等待 online 事件后再重连
+   * @param immediate - 是否立即重连（网络恢复、页面重新可见时）
+   */
+  private handleReconnect(immediate: boolean = false): void {
+    if (!this.shouldReconnect || this.reconnectTimer) {
+      return;
+    }
+    if (browserGlobals.navigator?.onLine === false) {
+      return;
+    }
+
+    const attempt = this.reconnectCount + 1;
+    let delay =
+      attempt > this.config.maxReconnectCount
+        ? null
+        : this.getReconnectDelay(attempt);
+    if (delay === null) {
+      this.logger.error({ attempts: this.reconnectCount }, 'Reconnect stopped');
+      this.shouldReconnect = false;
+      this.clearQueue('Max reconnect count reached');
+      this.onReconnectFailed();
+      return;
+    }
+
+    if (immediate) {
+      delay = 0;
+    } else if (this.shutdownDelay > 0) {
+      // 在建议的延迟上随机增加最多同样的时长，分散重连
+      delay = Math.max(
+        delay,
+        this.shutdownDelay + Math.random() * this.shutdownDelay
+      );
+    }
+    this.shutdownDelay = 0;
+    this.reconnectCount = attempt;
+    this.logger.debug({ attempt, delay }, 'Reconnecting');
+    this.onReconnecting(attempt, delay);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.shouldReconnect && this.config.status === 'disconnected') {
+        this.config.status = 'connecting';
+        this.setupWebSocket();
+      }
+    }, delay);
+  }
+
+  /**
+   * 计算第 attempt 次重连前的等待时间
+   * @returns 自定义策略要求停止重连时返回 null
+   */
+  private getReconnectDelay(attempt: number): number | null {
+    const {
+      backoff = 'exponential',
+      delay = 1000,
+      maxDelay = 30000,
+      jitter = 0.5,
+    } = this.config.reconnect;
+    if (typeof backoff === 'function') {
+      return backoff(attempt);
+    }
+    const base =
+      backoff === 'fixed'
+        ? delay
+        : Math.min(delay * Math.pow(2, attempt - 1), maxDelay);
+    return base * (1 - Math.random() * Math.min(Math.max(jitter, 0), 1));
+  }
+
+  /**
+   * 网络恢复或页面重新可见时，取消等待中的重连并立即重连
+   */
+  private reconnectImmediately = (): void => {
+    if (!this.shouldReconnect || this.config.status !== 'disconnected') {
+      return;
+    }
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.reconnectCount = 0;
+    this.handleReconnect(true);
+  };
+
+  /**
+   * 网络断开时暂停等待中的重连，不消耗重连次数
+   */
+  private pauseReconnect = (): void => {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  };
+
+  /**
+   * 页面重新可见时立即重连
+   */
+  private handleVisibilityChange = (): void => {
+    if (browserGlobals.document?.visibilityState === 'visible') {
+      this.reconnectImmediately();
+    }
+  };
+
+  /**
+   * 注册或移除浏览器的 online / offline / visibilitychange 监听（其他运行环境中不生效）
+   */
+  private watchNetwork(enabled: boolean): void {
+    const method = enabled ? 'addEventListener' : 'removeEventListener';
+    browserGlobals[method]?.('online', this.reconnectImmediately);
+    browserGlobals[method]?.('offline', this.pauseReconnect);
+    browserGlobals.document?.[method](
+      'visibilitychange',
+      this.handleVisibilityChange
+    );
+  }
+
+  /**
+   * 清理所有待处理的请求
+   */
+  private cleanupPendingFetches(): void {
+    for (const [fetchId, pending] of this.pendingFetches.entries()) {
+      clearTimeout(pending.timeout);
+      pending.reject(new Error('Connection closed'));
+      this.pendingFetches.delete(fetchId);
+    }
+  }
+
+  /**
+   * 通知服务器取消请求
+   * 未连接时无需发送：请求仍在离线队列中时不会再被发送，已发出的请求在断开时由服务器取消
+   */
+  private sendCancel(fetchId: string): void {
+    if (this.config.status !== 'connected') return;
+    this.sendMessage({
+      type: 'cancel',
+      fetchId,
+      body: { code: 499, data: null, msg: 'Request cancelled' },
+    });
+  }
+
+  /**
+   * 让所有进行中的流式请求失败
+   */
+  private failStreams(reason: string): void {
+    const streams = [...this.streams.values()];
+    this.streams.clear();
+    for (const stream of streams) {
+      stream.fail(new Error(reason));
+    }
+  }
+
+  /**
+   * 获取当前客户端配置
+   * 返回当前的配置信息（包括连接状态、URL 等）
+   * @returns 返回当前的完整配置对象
+   */
+  getConfig = (): MasSocketServerClinetConfig => {
+    return { ...this.config };
+  };
+
+  /**
+   * 设置客户端配置
+   * 更新客户端的连接行为参数（如重连次数、超时时间等）
+   * @param config - 要更新的配置项（部分更新，不需要提供所有字段）
+   */
+  setConfig = (config: Partial<ServerClinetConfig>): void => {
+    this.config = {
+      ...this.config,
+      ...config,
+    };
+  };
+
+  /**
+   * 连接到 WebSocket 服务器
+   * 建立与指定 URL 的 WebSocket 连接，支持自动重连
+   * 服务器启用会话恢复时，自动重连会携带上次的客户端 ID 和恢复令牌以恢复原会话
+   * @param url - WebSocket 服务器地址（如 'ws://localhost:3000' 或 'wss://example.com'）
+   */
+  connect = (url: string): void => {
+    if (this.ws && this.config.status !== 'disconnected') {
+      this.close();
+    }
+
+    this.config.url = url;
+    this.config.status = 'connecting';
+    this.session = null;
+    this.shouldReconnect = true;
+    this.reconnectCount = 0;
+    this.watchNetwork(true);
+    this.setupWebSocket();
+  };
+
+  /**
+   * 关闭与服务器的连接
+   * 主动断开 WebSocket 连接，停止自动重连
+   */
+  close = (): void => {
+    this.shouldReconnect = false;
+    this.watchNetwork(false);
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    if (this.connectTimeout) {
+      clearTimeout(this.connectTimeout);
+      this.connectTimeout = null;
+    }
+
+    if (this.ws) {
+      // 使用 1000 正常关闭，服务器不会为其保留会话
+      this.ws.close(1000);
+      this.ws = null;
+    }
+
+    this.config.status = 'disconnected';
+    this.session = null;
+    this.clearQueue('Connection closed');
+    this.cleanupPendingFetches();
+    this.failStreams('Connection closed');
+    for (const controller of this.controllers.values()) {
+      controller.abort(new Error('Connection closed'));
+    }
+    this.controllers.clear();
+  };
+
+  /**
+   * 连接断开时的回调函数
+   * 当与服务器的连接断开时触发（包括主动关闭、网络错误、服务器关闭等）
+   * @param _info - 关闭码、原因以及是否会自动重连，可据此区分被踢出和网络中断
+   */
+  onDisconnect = (_info: ClientDisconnectInfo): void => {};
+
+  /**
+   * 安排自动重连时的回调函数
+   * @param _attempt - 第几次重连（从 1 开始，网络恢复后重新计数）
+   * @param _delay - 距离发起重连的等待时间（毫秒）
+   */
+  onReconnecting = (_attempt: number, _delay: number): void => {};
+
+  /**
+   * 自动重连成功时的回调函数
+   */
+  onReconnected = (): void => {};
+
+  /**
+   * 放弃自动重连时的回调函数（达到最大重连次数，或自定义的 backoff 返回 null）
+   * 离线队列中的请求此时已全部失败
+   */
+  onReconnectFailed = (): void => {};
+
+  /**
+   * 判断失败的请求属于哪种可重试的情况
+   * @returns 不可重试时返回 null
+   */
+  private getRetryCondition(error: unknown): RetryCondition | null {
+    const message = error instanceof Error ? error.message : '';
+    if (message.startsWith('Request timeout')) {
+      return 'timeout';
+    }
+    // 主动调用 close() 后不再重试
+    if (
+      this.shouldReconnect &&
+      (message === 'WebSocket is not connected' ||
+        this.config.status !== 'connected')
+    ) {
+      return 'disconnect';
+    }
+    return null;
+  }
+
+  /**
+   * 计算第 attempt 次重试前的等待时间
+   */
+  private getRetryDelay(retry: RetryConfig, attempt: number): number {
+    const { backoff = 'exponential', delay = 1000, maxDelay = 30000 } = retry;
+    if (typeof backoff === 'function') {
+      return backoff(attempt);
+    }
+    if (backoff === 'fixed') {
+      return delay;
+    }
+    return Math.min(delay * Math.pow(2, attempt - 1), maxDelay);
+  }
+
+  /**
+   * 按重试策略执行请求
+   * 每次尝试使用相同的幂等键，服务器对已处理过的请求直接返回缓存的回复
+   */
+  private async fetchWithRetry(
+    attempt: () => Promise<any>,
+    retry: RetryConfig,
+    signal?: AbortSignal
+  ): Promise<any> {
+    const { count, retryOn = ['timeout', 'disconnect', '5xx'] } = retry;
+
+    for (let retries = 0; ; retries++) {
+      const canRetry = retries < count;
+      try {
+        const response = await attempt();
+        if (!canRetry || !retryOn.includes('5xx') || !(response?.code >= 500)) {
+          return response;
+        }
+      } catch (error) {
+        const condition = this.getRetryCondition(error);
+        if (!canRetry || !condition || !retryOn.includes(condition)) {
+          throw error;
+        }
+      }
+
+      // 等待退避时间，期间可被 signal 取消
+      const delay = this.getRetryDelay(retry, retries + 1);
+      await new Promise<void>((resolve, reject) => {
+        const onAbort = () => {
+          clearTimeout(timer);
+          reject(signal!.reason);
+        };
+        const timer = setTimeout(() => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        }, delay);
+        signal?.addEventListener('abort', onAbort, { once: true });
+      });
+    }
+  }
+
+  /**
+   * 向服务器发送请求并等待回复
+   * 类似于 HTTP 请求-响应模式，发送消息后等待服务器回复
+   * 启用离线队列时，连接中/重连中的请求会先进入队列，maxWait 从调用时开始计算
+   * 配置 retry 时，超时、断开或 5xx 回复会按退避策略自动重试，每次尝试的 maxWait 单独计算
+   * @param event - 事件名称，用于标识请求类型
+   * @param data - 要发送的数据
+   * @param config - 可选的请求配置（如超时时间、是否需要回复、重试策略等）
+   * @returns 返回 Promise，resolve 时包含服务器的回复数据
+   */
+  fetch: ClientFetch<E> = async (
+    event: string,
+    data: any,
+    config?: FetchConfig
+  ): Promise<any> => {
+    const finalConfig = { ...this.fetchConfig, ...config };
+    const {
+      hasReply = true,
+      code = 200,
+      msg = 'success',
+      headers,
+      expire = this.config.queueExpire,
+      signal,
+      retry,
+      schema,
+    } = finalConfig;
+    const header = { ...this.defaultHeaders, ...headers };
+    signal?.throwIfAborted();
+
+    // 如果不需要回复，直接发送并返回
+    if (!hasReply) {
+      if (this.config.status !== 'connected' && !this.canQueue()) {
+        throw new Error('WebSocket is not connected');
+      }
+      this.dispatch(
+        {
+          type: 'event',
+          event,
+          body: {
+            code,
+            data,
+            msg,
+          },
+          header,
+        },
+        expire
+      );
+      return;
+    }
+
+    let reply: Message;
+    if (!retry || retry.count <= 0) {
+      reply = await this.request(event, data, finalConfig, header);
+    } else {
+      // 所有重试共用同一个幂等键
+      header[IDEMPOTENCY_HEADER] ??= this.generateFetchId();
+      reply = await this.fetchWithRetry(
+        () => this.request(event, data, finalConfig, header),
+        retry,
+        signal
+      );
+    }
+
+    return schema ? validateReply(schema, reply) : reply;
+  };
+
+  /**
+   * 发送内置的系统事件请求（不检查事件约定）
+   */
+  private fetchSystem(event: string, data: any): Promise<Message> {
+    return this.fetch(event as EventName<E>, data);
+  }
+
+  /**
+   * 发送一次需要回复的请求
+   * @param header - 已合并默认请求头的请求头
+   */
+  private async request(
+    event: string,
+    data: any,
+    config: FetchConfig,
+    header: Record<string, string>
+  ): Promise<any> {
+    if (this.config.status !== 'connected' && !this.canQueue()) {
+      throw new Error('WebSocket is not connected');
+    }
+
+    const {
+      maxWait = 10000,
+      code = 200,
+      msg = 'success',
+      expire = this.config.queueExpire,
+      signal,
+    } = config;
+
+    const fetchId = this.generateFetchId();
+    const promise = new Promise<any>((resolve, reject) => {
+      // 取消时移除待处理的请求，已发出的请求通知服务器取消
+      const onAbort = () => {
+        const pending = this.pendingFetches.get(fetchId);
+        if (!pending) return;
+        this.pendingFetches.delete(fetchId);
+        this.sendCancel(fetchId);
+        pending.reject(signal!.reason);
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      const timeout = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        this.pendingFetches.delete(fetchId);
+        this.logger.warn(
+          { event, fetchId, duration: maxWait },
+          'Fetch timed out'
+        );
+        reject(new Error(`Request timeout after ${maxWait}ms`));
+      }, maxWait);
+      // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+      // @ts-ignore
+      this.pendingFetches.set(fetchId, {
+        resolve: (value: any) => {
+          clearTimeout(timeout);
+          signal?.removeEventListener('abort', onAbort);
+          resolve(value);
+        },
+        reject: (reason?: any) => {
+          clearTimeout(timeout);
+          signal?.removeEventListener('abort', onAbort);
+          reject(reason);
+        },
+        timeout,
+      });
+    });
+
+    // 从队列中丢弃时，让对应的请求失败
+    const drop = (error: Error) => {
+      const pending = this.pendingFetches.get(fetchId);
+      if (pending) {
+        this.pendingFetches.delete(fetchId);
+        pending.reject(error);
+      }
+    };
+
+    // 发送消息（未连接时进入离线队列）
+    try {
+      this.dispatch(
+        {
+          type: 'event',
+          event,
+          fetchId,
+          body: {
+            code,
+            data,
+            msg,
+          },
+          header,
+        },
+        expire,
+        drop
+      );
+    } catch (error) {
+      const pending = this.pendingFetches.get(fetchId);
+      if (pending) {
+        clearTimeout(pending.timeout);
+        this.pendingFetches.delete(fetchId);
+      }
+      throw error;
+    }
+
+    return promise;
+  }
+
+  /**
+   * 向服务器发送请求并以流的方式接收回复
+   * 服务器处理器通过 stream.write() 逐块发送、stream.end() 结束，分块以异步迭代器的方式读取
+   * - 背压：最多缓存 highWaterMark 个未读取的分块，超过时服务器端的 write 会等待
+   * - 超时：等待下一个分块超过 chunkTimeout 时迭代失败并取消请求
+   * - 取消：调用 cancel() 或在 for await 中 break 都会通知服务器停止写入
+   * @param event - 事件名称
+   * @param data - 要发送的数据
+   * @param config - 可选的请求配置，支持 highWaterMark、chunkTimeout、headers、expire
+   * @returns 返回可异步迭代的流，stream.result 为服务器的最终回复
+   */
+  fetchStream = <T = any>(
+    event: string,
+    data: any,
+    config?: FetchConfig
+  ): FetchStream<T> => {
+    const finalConfig = { ...this.fetchConfig, ...config };
+    const {
+      maxWait = 10000,
+      code = 200,
+      msg = 'success',
+      headers,
+      expire = this.config.queueExpire,
+      highWaterMark = 16,
+      chunkTimeout = maxWait,
+      signal,
+    } = finalConfig;
+    const header = { ...this.defaultHeaders, ...headers };
+    const fetchId = this.generateFetchId();
+
+    const stream = new FetchStream<T>({
+      window: Math.max(1, highWaterMark),
+      chunkTimeout,
+      // 确认消息只在连接可用时发送，断开时服务器已取消该流
+      onAck: (count) => {
+        if (this.config.status !== 'connected') return;
+        this.sendMessage({
+          type: 'ack',
+          fetchId,
+          body: { code: 200, data: count, msg: '' },
+        });
+      },
+      onCancel: () => {
+        if (this.streams.delete(fetchId)) {
+          this.sendCancel(fetchId);
+        }
+      },
+    });
+    const onAbort = () => stream.cancel(signal!.reason);
+
+    if (this.config.status !== 'connected' && !this.canQueue()) {
+      stream.fail(new Error('WebSocket is not connected'));
+      return stream;
+    }
+    if (signal?.aborted) {
+      stream.fail(signal.reason);
+      return stream;
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+    const removeAbortListener = () =>
+      signal?.removeEventListener('abort', onAbort);
+    stream.result.then(removeAbortListener, removeAbortListener);
+
+    this.streams.set(fetchId, stream);
+    try {
+      this.dispatch(
+        {
+          type: 'event',
+          event,
+          fetchId,
+          body: { code, data, msg },
+          header,
+          stream: Math.max(1, highWaterMark),
+        },
+        expire,
+        (error) => {
+          this.streams.delete(fetchId);
+          stream.fail(error);
+        }
+      );
+    } catch (error) {
+      this.streams.delete(fetchId);
+      stream.fail(error as Error);
+    }
+
+    return stream;
+  };
+
+  /**
+   * 订阅主题
+   * 订阅成功后可通过 onTopic 接收服务器 publish 的消息，断线重连建立新会话后会自动重新订阅
+   * @param topic - 主题名称
+   * @throws 服务器拒绝订阅（canSubscribe 返回 false）时抛出错误
+   */
+  subscribe = async (topic: string): Promise<void> => {
+    this.subscriptions.add(topic);
+    const response = await this.fetchSystem('_system_subscribe', {
+      topic,
+    }).catch((error) => {
+      this.subscriptions.delete(topic);
+      throw error;
+    });
+    if (response.code !== 200) {
+      this.subscriptions.delete(topic);
+      throw new Error(response.msg);
+    }
+  };
+
+  /**
+   * 取消订阅主题
+   * @param topic - 主题名称
+   */
+  unsubscribe = async (topic: string): Promise<void> => {
+    this.subscriptions.delete(topic);
+    const response = await this.fetchSystem('_system_unsubscribe', { topic });
+    if (response.code !== 200) {
+      throw new Error(response.msg);
+    }
+  };
+
+  /**
+   * 监听主题消息
+   * 只接收已通过 subscribe 订阅的主题消息
+   * @param topic - 主题名称
+   * @param listener - 消息监听函数，参数为发布的数据和主题名称
+   * @returns 取消监听的函数
+   */
+  onTopic<T = any>(topic: string, listener: TopicListener<T>): () => void {
+    if (!this.topicListeners.has(topic)) {
+      this.topicListeners.set(topic, new Set());
+    }
+    this.topicListeners.get(topic)!.add(listener);
+    return () => {
+      const listeners = this.topicListeners.get(topic);
+      if (listeners) {
+        listeners.delete(listener);
+        if (listeners.size === 0) {
+          this.topicListeners.delete(topic);
+        }
+      }
+    };
+  }
+
+  /**
+   * 注册事件监听器
+   * 监听服务器发送的特定事件，当收到对应事件时执行处理函数
+   * @param event - 要监听的事件名称
+   * @param handler - 事件处理函数
+   *   - reply: 用于向服务器发送回复的函数，可通过第 2 个参数附带回复头部
+   *   - body: 服务器发送的消息体
+   *   - fetchId: 请求的唯一标识符（用于匹配请求和回复）
+   *   - header: 消息的头部信息（可能包含认证、元数据等）
+   *   传入 { schema, handler } 时，中间件执行完后先用 schema 校验 body.data，
+   *   校验失败回复 400（data 为 { errors: [{ path, message }] }），通过后处理器收到校验后的数据
+   *   event 可以是模式：'*' 匹配任意字符（如 'user:*'），位于开头或 '/' 之后的 ':name' 为参数
+   *   （如 'room/:roomId/message'），参数通过 params 传给处理器；精确匹配的处理器优先执行
+   */
+  on<K extends EventName<E>>(
+    event: K,
+    handler:
+      | EventHandler<EventRequest<E, K>, EventResponse<E, K>>
+      | EventHandlerOptions<EventRequest<E, K>, EventResponse<E, K>>
+  ): void;
+  on(pattern: RoutePattern, handler: EventHandler | EventHandlerOptions): void;
+  on(event: string, handler: EventHandler | EventHandlerOptions): void {
+    this.dispatcher.on(event, handler);
+  }
+
+  /**
+   * 注册兜底的事件处理器
+   * 事件没有匹配任何精确或模式处理器时执行，未注册时回复 404
+   * @param handler - 事件处理函数，可通过 ctx.event 获取事件名
+   */
+  onAny(handler: EventHandler): void {
+    this.dispatcher.onAny(handler);
+  }
+
+  /**
+   * 注册中间件
+   * 中间件按洋葱模型执行，可以用于认证、日志、计时、错误处理、回复转换等
+   * 可以注册多个中间件，它们会按注册顺序依次执行
+   * @param pattern - 可选的事件名模式（如 'admin:*'、'room/:roomId/*'），只对匹配的事件生效
+   * @param handler - 中间件处理函数 (ctx, next)
+   *   - ctx: 事件上下文（reply、body、fetchId、header、event、signal）
+   *   - ctx.state: 向下游中间件和事件处理器传递数据
+   *   - ctx.response: 待发送的回复，await next() 之后可以检查或修改
+   *   - next: 执行下游的中间件和事件处理器；不调用且没有回复时自动继续执行下游
+   */
+  use(handler: Middleware): void;
+  use(pattern: string, handler: Middleware): void;
+  use(patternOrHandler: string | Middleware, handler?: Middleware): void {
+    if (typeof patternOrHandler === 'function') {
+      this.dispatcher.use(undefined, patternOrHandler);
+      return;
+    }
+    this.dispatcher.use(patternOrHandler, handler!);
+  }
+}
+
+export default MasSocketClinet;
+export { jsonCodec, msgpackCodec, cborCodec } from './codec';
+export { CloseCode } from './close';
+export { createConsoleLogger, silentLogger } from './logger';
+export type { Logger, LogFields, LogLevel } from './logger';
+export type { MasSocketCodec, CodecName } from './codec';
+export type { FetchStream } from './stream';
+export { ValidationError } from './schema';
+export type {
+  Schema,
+  JsonSchema,
+  StandardSchemaV1,
+  ValidationIssue,
+} from './schema';
+export { defineEvents } from './events';
+export type {
+  EventContract,
+  EventDefinition,
+  EventMap,
+  EventName,
+  EventRequest,
+  EventResponse,
+} from './events';
@@ -0,0 +1,16 @@
+/**
+ * WebSocket 关闭码
+ * 1000 ~ 1015 为协议定义的关闭码，4000 ~ 4999 为应用自定义的关闭码
+ */
+export const CloseCode = {
+  /** 正常关闭 */
+  NORMAL: 1000,
+  /** 服务器关闭（shutdown） */
+  GOING_AWAY: 1001,
+  /** 违反策略（如频繁触发限流、重复的客户端 ID） */
+  POLICY_VIOLATION: 1008,
+  /** 被服务器踢出，客户端默认不再自动重连 */
+  KICKED: 4000,
+  /** 被服务器封禁，客户端默认不再自动重连 */
+  BANNED: 4001,
+} as const;
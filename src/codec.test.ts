@@ -0,0 +1,501 @@
+import { test, expect, describe } from 'bun:test';
+import { cborCodec, jsonCodec, msgpackCodec } from './codec';
+import type { MasSocketCodec } from './codec';
+import type { InternalMessage } from './type';
+
+/** 十六进制字符串 -> 字节（允许空格） */
+const hex = (value: string): Uint8Array =>
+  Uint8Array.from(Buffer.from(value.replace(/\s/g, ''), 'hex'));
+
+/** 字节 -> 十六进制字符串 */
+const toHex = (value: string | Uint8Array): string =>
+  Buffer.from(value as Uint8Array).toString('hex');
+
+/** 编解码器的类型限定为 InternalMessage，测试中直接编解码任意值 */
+const encode = (codec: MasSocketCodec, value: unknown): Uint8Array =>
+  codec.encode(value as InternalMessage) as Uint8Array;
+
+const decode = (codec: MasSocketCodec, data: Uint8Array): any =>
+  codec.decode(data);
+
+const roundTrip = (codec: MasSocketCodec, value: unknown): any =>
+  decode(codec, encode(codec, value));
+
+const message: InternalMessage = {
+  type: 'event',
+  event: 'chat:send',
+  fetchId: 'f-1',
+  body: { code: 200, data: { text: '你好', list: [1, -2, 3.5] }, msg: 'ok' },
+  header: { 'x-trace': 'abc' },
+  stream: 16,
+};
+
+describe('jsonCodec', () => {
+  test('编码为字符串，解码支持字符串和字节', () => {
+    const text = jsonCodec.encode(message);
+    expect(typeof text).toBe('string');
+    expect(jsonCodec.decode(text as string)).toEqual(message);
+    expect(jsonCodec.decode(new TextEncoder().encode(text as string))).toEqual(
+      message
+    );
+  });
+});
+
+describe('msgpackCodec', () => {
+  test('往返编解码内部消息', () => {
+    expect(msgpackCodec.decode(msgpackCodec.encode(message))).toEqual(message);
+  });
+
+  test('规范示例：{"compact":true,"schema":0}', () => {
+    const bytes = '82a7636f6d70616374c3a6736368656d6100';
+    expect(toHex(encode(msgpackCodec, { compact: true, schema: 0 }))).toBe(
+      bytes
+    );
+    expect(decode(msgpackCodec, hex(bytes))).toEqual({
+      compact: true,
+      schema: 0,
+    });
+  });
+
+  test.each([
+    [0, '00'],
+    [127, '7f'],
+    [128, 'cc80'],
+    [255, 'ccff'],
+    [256, 'cd0100'],
+    [65535, 'cdffff'],
+    [65536, 'ce00010000'],
+    [0xffffffff, 'ceffffffff'],
+    [-1, 'ff'],
+    [-32, 'e0'],
+    [-33, 'd0df'],
+    [-128, 'd080'],
+    [-129, 'd1ff7f'],
+    [-32768, 'd18000'],
+    [-32769, 'd2ffff7fff'],
+    [-0x80000000, 'd280000000'],
+  ])('整数 %d 使用最短格式 %s', (value, bytes) => {
+    expect(toHex(encode(msgpackCodec, value))).toBe(bytes);
+    expect(decode(msgpackCodec, hex(bytes))).toBe(value);
+  });
+
+  test('超出 32 位的整数和小数编码为 float64', () => {
+    expect(toHex(encode(msgpackCodec, 1.5))).toBe('cb3ff8000000000000');
+    expect(toHex(encode(msgpackCodec, 0x100000000))).toBe('cb41f0000000000000');
+    expect(roundTrip(msgpackCodec, Number.MAX_SAFE_INTEGER)).toBe(
+      Number.MAX_SAFE_INTEGER
+    );
+    expect(roundTrip(msgpackCodec, -0x80000001)).toBe(-0x80000001);
+    expect(roundTrip(msgpackCodec, -4.1)).toBe(-4.1);
+  });
+
+  test('解码 float32 和 64 位整数', () => {
+    expect(decode(msgpackCodec, hex('ca3f800000'))).toBe(1);
+    expect(decode(msgpackCodec, hex('cac0200000'))).toBe(-2.5);
+    expect(decode(msgpackCodec, hex('cf0000000000000005'))).toBe(5);
+    expect(decode(msgpackCodec, hex('d3fffffffffffffffb'))).toBe(-5);
+    expect(decode(msgpackCodec, hex('d0ff'))).toBe(-1);
+    expect(decode(msgpackCodec, hex('d1ff00'))).toBe(-256);
+  });
+
+  test('bigint 编码为 64 位整数，超出安全整数范围时解码为 bigint', () => {
+    expect(toHex(encode(msgpackCodec, 2n ** 63n))).toBe('cf8000000000000000');
+    expect(roundTrip(msgpackCodec, 2n ** 64n - 1n)).toBe(2n ** 64n - 1n);
+    expect(roundTrip(msgpackCodec, -(2n ** 63n))).toBe(-(2n ** 63n));
+    expect(roundTrip(msgpackCodec, 5n)).toBe(5);
+    expect(roundTrip(msgpackCodec, -5n)).toBe(-5);
+  });
+
+  test.each([
+    [0, 'a0'],
+    [31, 'bf'],
+    [32, 'd920'],
+    [255, 'd9ff'],
+    [256, 'da0100'],
+    [65535, 'daffff'],
+    [65536, 'db00010000'],
+  ])('长度为 %d 的字符串使用头部 %s', (length, head) => {
+    const value = 'a'.repeat(length);
+    const bytes = encode(msgpackCodec, value);
+    expect(toHex(bytes.subarray(0, head.length / 2))).toBe(head);
+    expect(bytes.length).toBe(head.length / 2 + length);
+    expect(decode(msgpackCodec, bytes)).toBe(value);
+  });
+
+  test('多字节字符串按 UTF-8 字节数计算长度', () => {
+    expect(toHex(encode(msgpackCodec, '你好'))).toBe('a6e4bda0e5a5bd');
+    expect(roundTrip(msgpackCodec, '😀'.repeat(20))).toBe('😀'.repeat(20));
+  });
+
+  test.each([
+    [0, 'c400'],
+    [255, 'c4ff'],
+    [256, 'c50100'],
+    [65536, 'c600010000'],
+  ])('长度为 %d 的二进制使用头部 %s', (length, head) => {
+    const value = new Uint8Array(length).fill(7);
+    const bytes = encode(msgpackCodec, value);
+    expect(toHex(bytes.subarray(0, head.length / 2))).toBe(head);
+    const result = decode(msgpackCodec, bytes);
+    expect(result).toBeInstanceOf(Uint8Array);
+    expect(result.length).toBe(length);
+    expect(result.every((byte: number) => byte === 7)).toBe(true);
+  });
+
+  test('Buffer、ArrayBuffer 和 DataView 编码为 bin', () => {
+    const expected = 'c403010203';
+    expect(toHex(encode(msgpackCodec, Buffer.from([1, 2, 3])))).toBe(expected);
+    expect(toHex(encode(msgpackCodec, new Uint8Array([1, 2, 3]).buffer))).toBe(
+      expected
+    );
+    const view = new DataView(new Uint8Array([0, 1, 2, 3, 0]).buffer, 1, 3);
+    expect(toHex(encode(msgpackCodec, view))).toBe(expected);
+  });
+
+  test('从 Buffer 解码时 bin 为 Buffer，且不引用原始数据', () => {
+    const data = Buffer.from('c403010203', 'hex');
+    const result = decode(msgpackCodec, data);
+    expect(Buffer.isBuffer(result)).toBe(true);
+    data[2] = 9;
+    expect([...result]).toEqual([1, 2, 3]);
+  });
+
+  test('Date 使用时间戳扩展类型（timestamp 96）', () => {
+    const date = new Date('2024-01-02T03:04:05.678Z');
+    const bytes = encode(msgpackCodec, date);
+    expect(toHex(bytes.subarray(0, 3))).toBe('c70cff');
+    expect(roundTrip(msgpackCodec, date)).toEqual(date);
+    expect(roundTrip(msgpackCodec, new Date(-1500))).toEqual(new Date(-1500));
+  });
+
+  test('解码 timestamp 32 / 64 / 96', () => {
+    expect(decode(msgpackCodec, hex('d6ff00000000'))).toEqual(new Date(0));
+    expect(decode(msgpackCodec, hex('d6ff5e0be100'))).toEqual(
+      new Date('2020-01-01T00:00:00Z')
+    );
+    // 500000000 纳秒，1 秒
+    expect(decode(msgpackCodec, hex('d7ff77359400 00000001'))).toEqual(
+      new Date(1500)
+    );
+    expect(
+      decode(msgpackCodec, hex('c70cff 00000000 ffffffffffffffff'))
+    ).toEqual(new Date(-1000));
+  });
+
+  test('未知扩展类型返回原始数据', () => {
+    expect(decode(msgpackCodec, hex('d40105'))).toEqual({
+      type: 1,
+      data: new Uint8Array([5]),
+    });
+  });
+
+  test('数组和映射的长度边界', () => {
+    for (const length of [15, 16, 65536]) {
+      const list = Array.from({ length }, (_, index) => index);
+      expect(roundTrip(msgpackCodec, list)).toEqual(list);
+    }
+    expect(toHex(encode(msgpackCodec, []).subarray(0, 1))).toBe('90');
+    expect(
+      toHex(encode(msgpackCodec, new Array(16).fill(0)).subarray(0, 3))
+    ).toBe('dc0010');
+    const map = Object.fromEntries(
+      Array.from({ length: 16 }, (_, index) => [`k${index}`, index])
+    );
+    expect(toHex(encode(msgpackCodec, map).subarray(0, 3))).toBe('de0010');
+    expect(roundTrip(msgpackCodec, map)).toEqual(map);
+  });
+
+  test('与 JSON 一致：Map 编码为空对象，跳过 undefined 和函数，调用 toJSON', () => {
+    expect(roundTrip(msgpackCodec, new Map([['a', 1]]))).toEqual({});
+    expect(
+      roundTrip(msgpackCodec, { a: undefined, b: () => 1, c: 1, d: null })
+    ).toEqual({ c: 1, d: null });
+    expect(roundTrip(msgpackCodec, [undefined, () => 1])).toEqual([null, null]);
+    expect(roundTrip(msgpackCodec, { toJSON: () => 'custom' })).toBe('custom');
+  });
+
+  test('映射的非字符串键解码为字符串', () => {
+    expect(decode(msgpackCodec, hex('8101c3'))).toEqual({ '1': true });
+  });
+
+  test('截断的数据抛出错误', () => {
+    const bytes = msgpackCodec.encode(message) as Uint8Array;
+    for (const length of [0, 1, 10, bytes.length - 1]) {
+      expect(() => msgpackCodec.decode(bytes.subarray(0, length))).toThrow(
+        'Unexpected end of data'
+      );
+    }
+    expect(() => decode(msgpackCodec, hex('cd01'))).toThrow(
+      'Unexpected end of data'
+    );
+    expect(() => decode(msgpackCodec, hex('a3616263'.slice(0, 6)))).toThrow(
+      'Unexpected end of data'
+    );
+  });
+
+  test('多余的数据抛出错误', () => {
+    const bytes = msgpackCodec.encode(message) as Uint8Array;
+    const extra = new Uint8Array(bytes.length + 1);
+    extra.set(bytes);
+    expect(() => msgpackCodec.decode(extra)).toThrow(
+      'Unexpected trailing data'
+    );
+  });
+
+  test('无效的类型字节和文本消息抛出错误', () => {
+    expect(() => decode(msgpackCodec, hex('c1'))).toThrow(
+      'Invalid MessagePack byte: 0xc1'
+    );
+    expect(() => decode(msgpackCodec, hex('d6ff0000'))).toThrow(
+      'Unexpected end of data'
+    );
+    expect(() => decode(msgpackCodec, hex('d5ff0000'))).toThrow(
+      'Invalid MessagePack timestamp length: 2'
+    );
+    expect(() => msgpackCodec.decode('{}')).toThrow(
+      'Binary codec cannot decode text message'
+    );
+  });
+});
+
+describe('cborCodec', () => {
+  test('往返编解码内部消息', () => {
+    expect(cborCodec.decode(cborCodec.encode(message))).toEqual(message);
+  });
+
+  // RFC 8949 附录 A
+  test.each([
+    [0, '00'],
+    [1, '01'],
+    [23, '17'],
+    [24, '1818'],
+    [100, '1864'],
+    [1000, '1903e8'],
+    [1000000, '1a000f4240'],
+    [1000000000000, '1b000000e8d4a51000'],
+    [-1, '20'],
+    [-10, '29'],
+    [-100, '3863'],
+    [-1000, '3903e7'],
+    [1.1, 'fb3ff199999999999a'],
+    [-4.1, 'fbc010666666666666'],
+    [false, 'f4'],
+    [true, 'f5'],
+    [null, 'f6'],
+    ['', '60'],
+    ['a', '6161'],
+    ['IETF', '6449455446'],
+    ['"\\', '62225c'],
+    ['ü', '62c3bc'],
+    ['水', '63e6b0b4'],
+    [[], '80'],
+    [[1, [2, 3], [4, 5]], '8301820203820405'],
+    [{}, 'a0'],
+    [{ a: 1, b: [2, 3] }, 'a26161016162820203'],
+    [['a', { b: 'c' }], '826161a161626163'],
+  ])('RFC 示例 %p <-> %s', (value, bytes) => {
+    expect(toHex(encode(cborCodec, value))).toBe(bytes);
+    expect(decode(cborCodec, hex(bytes))).toEqual(value);
+  });
+
+  test('整数参数的长度边界', () => {
+    const cases: [number, string][] = [
+      [255, '18ff'],
+      [256, '190100'],
+      [65535, '19ffff'],
+      [65536, '1a00010000'],
+      [0xffffffff, '1affffffff'],
+      [0x100000000, '1b0000000100000000'],
+      [Number.MAX_SAFE_INTEGER, '1b001fffffffffffff'],
+      [-24, '37'],
+      [-25, '3818'],
+      [-256, '38ff'],
+      [-257, '390100'],
+      [-Number.MAX_SAFE_INTEGER, '3b001ffffffffffffe'],
+    ];
+    for (const [value, bytes] of cases) {
+      expect(toHex(encode(cborCodec, value))).toBe(bytes);
+      expect(decode(cborCodec, hex(bytes))).toBe(value);
+    }
+  });
+
+  test('bigint 编码为 64 位整数，超出安全整数范围时解码为 bigint', () => {
+    expect(toHex(encode(cborCodec, 2n ** 64n - 1n))).toBe('1bffffffffffffffff');
+    expect(decode(cborCodec, hex('1bffffffffffffffff'))).toBe(2n ** 64n - 1n);
+    expect(toHex(encode(cborCodec, -(2n ** 64n)))).toBe('3bffffffffffffffff');
+    expect(decode(cborCodec, hex('3bffffffffffffffff'))).toBe(-(2n ** 64n));
+    expect(roundTrip(cborCodec, 5n)).toBe(5);
+  });
+
+  test('解码半精度和单精度浮点数（RFC 示例）', () => {
+    const cases: [string, number][] = [
+      ['f90000', 0],
+      ['f93c00', 1],
+      ['f93e00', 1.5],
+      ['f97bff', 65504],
+      ['f90001', 5.960464477539063e-8],
+      ['f90400', 0.00006103515625],
+      ['f9c400', -4],
+      ['f97c00', Infinity],
+      ['f9fc00', -Infinity],
+      ['fa47c35000', 100000],
+      ['fa7f7fffff', 3.4028234663852886e38],
+      ['fb7e37e43c8800759c', 1e300],
+    ];
+    for (const [bytes, value] of cases) {
+      expect(decode(cborCodec, hex(bytes))).toBe(value);
+    }
+    expect(decode(cborCodec, hex('f97e00'))).toBeNaN();
+    expect(toHex(encode(cborCodec, Infinity))).toBe('fb7ff0000000000000');
+  });
+
+  test('字节串：Uint8Array、Buffer 和 ArrayBuffer', () => {
+    expect(toHex(encode(cborCodec, hex('01020304')))).toBe('4401020304');
+    expect(toHex(encode(cborCodec, Buffer.from([1, 2, 3, 4])))).toBe(
+      '4401020304'
+    );
+    expect(toHex(encode(cborCodec, hex('01020304').buffer))).toBe('4401020304');
+    const result = decode(cborCodec, hex('4401020304'));
+    expect(result).toBeInstanceOf(Uint8Array);
+    expect([...result]).toEqual([1, 2, 3, 4]);
+    expect(
+      Buffer.isBuffer(decode(cborCodec, Buffer.from('4401020304', 'hex')))
+    ).toBe(true);
+    const long = new Uint8Array(300).fill(1);
+    const bytes = encode(cborCodec, long);
+    expect(toHex(bytes.subarray(0, 3))).toBe('59012c');
+    expect([...decode(cborCodec, bytes)]).toEqual([...long]);
+  });
+
+  test('字符串长度边界', () => {
+    for (const [length, head] of [
+      [23, '77'],
+      [24, '7818'],
+      [256, '790100'],
+      [65536, '7a00010000'],
+    ] as const) {
+      const value = 'b'.repeat(length);
+      const bytes = encode(cborCodec, value);
+      expect(toHex(bytes.subarray(0, head.length / 2))).toBe(head);
+      expect(decode(cborCodec, bytes)).toBe(value);
+    }
+  });
+
+  test('不定长数据项（RFC 示例）', () => {
+    expect([...decode(cborCodec, hex('5f42010243030405ff'))]).toEqual([
+      1, 2, 3, 4, 5,
+    ]);
+    expect(decode(cborCodec, hex('7f657374726561646d696e67ff'))).toBe(
+      'streaming'
+    );
+    expect(decode(cborCodec, hex('9fff'))).toEqual([]);
+    expect(decode(cborCodec, hex('9f018202039f0405ffff'))).toEqual([
+      1,
+      [2, 3],
+      [4, 5],
+    ]);
+    expect(decode(cborCodec, hex('83018202039f0405ff'))).toEqual([
+      1,
+      [2, 3],
+      [4, 5],
+    ]);
+    expect(decode(cborCodec, hex('bf61610161629f0203ffff'))).toEqual({
+      a: 1,
+      b: [2, 3],
+    });
+    expect(decode(cborCodec, hex('bf6346756ef563416d7421ff'))).toEqual({
+      Fun: true,
+      Amt: -2,
+    });
+  });
+
+  test('tag：日期时间和其他 tag（RFC 示例）', () => {
+    expect(
+      decode(cborCodec, hex('c074323031332d30332d32315432303a30343a30305a'))
+    ).toEqual(new Date('2013-03-21T20:04:00Z'));
+    expect(decode(cborCodec, hex('c11a514b67b0'))).toEqual(
+      new Date('2013-03-21T20:04:00Z')
+    );
+    expect(decode(cborCodec, hex('c1fb41d452d9ec200000'))).toEqual(
+      new Date('2013-03-21T20:04:00.500Z')
+    );
+    // 其他 tag 只保留内容
+    expect([...decode(cborCodec, hex('d74401020304'))]).toEqual([1, 2, 3, 4]);
+    expect(
+      decode(
+        cborCodec,
+        hex('d82076687474703a2f2f7777772e6578616d706c652e636f6d')
+      )
+    ).toBe('http://www.example.com');
+  });
+
+  test('Date 使用 tag 1 编码', () => {
+    expect(toHex(encode(cborCodec, new Date('2013-03-21T20:04:00Z')))).toBe(
+      'c11a514b67b0'
+    );
+    for (const time of [0, 1500, -1500, 1700000000123, 1704164645678]) {
+      expect(roundTrip(cborCodec, new Date(time))).toEqual(new Date(time));
+    }
+  });
+
+  test('简单值和 undefined', () => {
+    expect(decode(cborCodec, hex('f7'))).toBeNull();
+    expect(decode(cborCodec, hex('f0'))).toBeNull();
+    expect(decode(cborCodec, hex('f8ff'))).toBeNull();
+    expect(toHex(encode(cborCodec, undefined))).toBe('f6');
+  });
+
+  test('与 JSON 一致：Map 编码为空对象，跳过 undefined 和函数', () => {
+    expect(toHex(encode(cborCodec, new Map([['a', 1]])))).toBe('a0');
+    expect(roundTrip(cborCodec, { a: undefined, b: () => 1, c: 1 })).toEqual({
+      c: 1,
+    });
+    expect(decode(cborCodec, hex('a10102'))).toEqual({ '1': 2 });
+  });
+
+  test('截断的数据抛出错误', () => {
+    const bytes = cborCodec.encode(message) as Uint8Array;
+    for (const length of [0, 1, 10, bytes.length - 1]) {
+      expect(() => cborCodec.decode(bytes.subarray(0, length))).toThrow(
+        'Unexpected end of data'
+      );
+    }
+    expect(() => decode(cborCodec, hex('9f01'))).toThrow(
+      'Unexpected end of data'
+    );
+    expect(() => decode(cborCodec, hex('5f4101'))).toThrow(
+      'Unexpected end of data'
+    );
+  });
+
+  test('多余的数据抛出错误', () => {
+    expect(() => decode(cborCodec, hex('0000'))).toThrow(
+      'Unexpected trailing data'
+    );
+  });
+
+  test('无效的数据抛出错误', () => {
+    expect(() => decode(cborCodec, hex('ff'))).toThrow('Unexpected CBOR break');
+    expect(() => decode(cborCodec, hex('8201ff'))).toThrow(
+      'Unexpected CBOR break'
+    );
+    expect(() => decode(cborCodec, hex('a1ff'))).toThrow(
+      'Unexpected CBOR break'
+    );
+    expect(() => decode(cborCodec, hex('1c'))).toThrow(
+      'Invalid CBOR additional info: 28'
+    );
+    expect(() => decode(cborCodec, hex('5f6161ff'))).toThrow(
+      'Invalid CBOR indefinite-length chunk'
+    );
+    expect(() => decode(cborCodec, hex('5bffffffffffffffff'))).toThrow(
+      'CBOR length is too large'
+    );
+    expect(() => decode(cborCodec, hex('fc'))).toThrow(
+      'Invalid CBOR simple value: 28'
+    );
+    expect(() => cborCodec.decode('{}')).toThrow(
+      'Binary codec cannot decode text message'
+    );
+  });
+});
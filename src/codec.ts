@@ -0,0 +1,819 @@
+import type { InternalMessage } from './type';
+
+/**
+ * 消息编解码器
+ * 客户端和服务器在连接时通过 WebSocket 子协议 `mas-socket.<name>` 协商使用的编解码器
+ */
+export interface MasSocketCodec {
+  /** 编解码器名称，如 'json'、'msgpack'、'cbor' */
+  readonly name: string;
+  /** 编码结果是否为二进制（二进制编码使用二进制帧发送） */
+  readonly binary: boolean;
+  /** 编码消息 */
+  encode(message: InternalMessage): string | Uint8Array;
+  /** 解码消息，解码失败时抛出错误 */
+  decode(data: string | Uint8Array): InternalMessage;
+}
+
+/**
+ * 子协议前缀
+ */
+const CODEC_PROTOCOL_PREFIX = 'mas-socket.';
+
+/**
+ * 获取编解码器对应的 WebSocket 子协议名
+ */
+export function getCodecProtocol(codec: MasSocketCodec): string {
+  return CODEC_PROTOCOL_PREFIX + codec.name;
+}
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+/**
+ * 将二进制数据统一转换为 Uint8Array（Buffer 本身就是 Uint8Array）
+ */
+function toBytes(value: ArrayBuffer | ArrayBufferView): Uint8Array {
+  if (value instanceof Uint8Array) return value;
+  if (ArrayBuffer.isView(value)) {
+    return new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
+  }
+  return new Uint8Array(value);
+}
+
+/**
+ * 判断是否为二进制数据
+ */
+function isBinary(value: any): value is ArrayBuffer | ArrayBufferView {
+  return value instanceof ArrayBuffer || ArrayBuffer.isView(value);
+}
+
+/**
+ * 可自动扩容的字节写入器
+ */
+class ByteWriter {
+  private buffer: Uint8Array = new Uint8Array(256);
+  private view: DataView = new DataView(this.buffer.buffer);
+  private offset: number = 0;
+
+  private ensure(size: number): void {
+    if (this.offset + size <= this.buffer.length) return;
+    let length = this.buffer.length * 2;
+    while (length < this.offset + size) {
+      length *= 2;
+    }
+    const buffer = new Uint8Array(length);
+    buffer.set(this.buffer);
+    this.buffer = buffer;
+    this.view = new DataView(buffer.buffer);
+  }
+
+  u8(value: number): void {
+    this.ensure(1);
+    this.view.setUint8(this.offset, value);
+    this.offset += 1;
+  }
+
+  u16(value: number): void {
+    this.ensure(2);
+    this.view.setUint16(this.offset, value);
+    this.offset += 2;
+  }
+
+  u32(value: number): void {
+    this.ensure(4);
+    this.view.setUint32(this.offset, value);
+    this.offset += 4;
+  }
+
+  u64(value: bigint): void {
+    this.ensure(8);
+    this.view.setBigUint64(this.offset, value);
+    this.offset += 8;
+  }
+
+  i64(value: bigint): void {
+    this.ensure(8);
+    this.view.setBigInt64(this.offset, value);
+    this.offset += 8;
+  }
+
+  f64(value: number): void {
+    this.ensure(8);
+    this.view.setFloat64(this.offset, value);
+    this.offset += 8;
+  }
+
+  bytes(value: Uint8Array): void {
+    this.ensure(value.length);
+    this.buffer.set(value, this.offset);
+    this.offset += value.length;
+  }
+
+  result(): Uint8Array {
+    return this.buffer.slice(0, this.offset);
+  }
+}
+
+/**
+ * 字节读取器，读取越界时抛出错误
+ */
+class ByteReader {
+  private view: DataView;
+  offset: number = 0;
+
+  constructor(private data: Uint8Array) {
+    this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  }
+
+  get done(): boolean {
+    return this.offset >= this.data.length;
+  }
+
+  private check(size: number): void {
+    if (this.offset + size > this.data.length) {
+      throw new Error('Unexpected end of data');
+    }
+  }
+
+  u8(): number {
+    this.check(1);
+    return this.view.getUint8(this.offset++);
+  }
+
+  i8(): number {
+    this.check(1);
+    return this.view.getInt8(this.offset++);
+  }
+
+  u16(): number {
+    this.check(2);
+    const value = this.view.getUint16(this.offset);
+    this.offset += 2;
+    return value;
+  }
+
+  i16(): number {
+    this.check(2);
+    const value = this.view.getInt16(this.offset);
+    this.offset += 2;
+    return value;
+  }
+
+  u32(): number {
+    this.check(4);
+    const value = this.view.getUint32(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  i32(): number {
+    this.check(4);
+    const value = this.view.getInt32(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  /** 读取 64 位无符号整数，超出安全整数范围时返回 bigint */
+  u64(): number | bigint {
+    this.check(8);
+    const value = this.view.getBigUint64(this.offset);
+    this.offset += 8;
+    return value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : value;
+  }
+
+  /** 读取 64 位有符号整数，超出安全整数范围时返回 bigint */
+  i64(): number | bigint {
+    this.check(8);
+    const value = this.view.getBigInt64(this.offset);
+    this.offset += 8;
+    return value <= BigInt(Number.MAX_SAFE_INTEGER) &&
+      value >= BigInt(Number.MIN_SAFE_INTEGER)
+      ? Number(value)
+      : value;
+  }
+
+  f16(): number {
+    const half = this.u16();
+    const exponent = (half >> 10) & 0x1f;
+    const mantissa = half & 0x3ff;
+    const sign = half & 0x8000 ? -1 : 1;
+    if (exponent === 0) return sign * mantissa * 2 ** -24;
+    if (exponent === 0x1f) return mantissa ? NaN : sign * Infinity;
+    return sign * (mantissa + 1024) * 2 ** (exponent - 25);
+  }
+
+  f32(): number {
+    this.check(4);
+    const value = this.view.getFloat32(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  f64(): number {
+    this.check(8);
+    const value = this.view.getFloat64(this.offset);
+    this.offset += 8;
+    return value;
+  }
+
+  /**
+   * 读取指定长度的字节
+   * 返回副本，不引用原始缓冲区；原始数据为 Buffer 时返回 Buffer
+   */
+  bytes(length: number): Uint8Array {
+    this.check(length);
+    const value = Uint8Array.prototype.slice.call(
+      this.data,
+      this.offset,
+      this.offset + length
+    );
+    this.offset += length;
+    return value;
+  }
+
+  str(length: number): string {
+    this.check(length);
+    const value = textDecoder.decode(
+      this.data.subarray(this.offset, this.offset + length)
+    );
+    this.offset += length;
+    return value;
+  }
+}
+
+/**
+ * 获取对象中需要编码的键值对
+ * 与 JSON.stringify 保持一致：调用 toJSON，跳过 undefined、函数和 symbol
+ */
+function objectEntries(value: Record<string, any>): [string, any][] {
+  return Object.entries(value).filter(
+    ([, item]) =>
+      item !== undefined &&
+      typeof item !== 'function' &&
+      typeof item !== 'symbol'
+  );
+}
+
+/**
+ * JSON 编解码器（默认）
+ * 二进制数据会按 JSON.stringify 的规则序列化，不能原样还原
+ */
+export const jsonCodec: MasSocketCodec = {
+  name: 'json',
+  binary: false,
+  encode: (message) => JSON.stringify(message),
+  decode: (data) =>
+    JSON.parse(
+      typeof data === 'string' ? data : textDecoder.decode(data)
+    ) as InternalMessage,
+};
+
+/** MessagePack 时间戳扩展类型 */
+const MSGPACK_TIMESTAMP_TYPE = -1;
+
+function msgpackEncode(writer: ByteWriter, value: any): void {
+  if (value === null || value === undefined) {
+    writer.u8(0xc0);
+  } else if (value === false) {
+    writer.u8(0xc2);
+  } else if (value === true) {
+    writer.u8(0xc3);
+  } else if (typeof value === 'number') {
+    if (Number.isInteger(value) && value >= 0 && value <= 0xffffffff) {
+      if (value < 0x80) {
+        writer.u8(value);
+      } else if (value <= 0xff) {
+        writer.u8(0xcc);
+        writer.u8(value);
+      } else if (value <= 0xffff) {
+        writer.u8(0xcd);
+        writer.u16(value);
+      } else {
+        writer.u8(0xce);
+        writer.u32(value);
+      }
+    } else if (Number.isInteger(value) && value < 0 && value >= -0x80000000) {
+      if (value >= -32) {
+        writer.u8(value & 0xff);
+      } else if (value >= -0x80) {
+        writer.u8(0xd0);
+        writer.u8(value & 0xff);
+      } else if (value >= -0x8000) {
+        writer.u8(0xd1);
+        writer.u16(value & 0xffff);
+      } else {
+        writer.u8(0xd2);
+        writer.u32(value >>> 0);
+      }
+    } else {
+      writer.u8(0xcb);
+      writer.f64(value);
+    }
+  } else if (typeof value === 'bigint') {
+    if (value >= 0n) {
+      writer.u8(0xcf);
+      writer.u64(value);
+    } else {
+      writer.u8(0xd3);
+      writer.i64(value);
+    }
+  } else if (typeof value === 'string') {
+    const bytes = textEncoder.encode(value);
+    const length = bytes.length;
+    if (length < 32) {
+      writer.u8(0xa0 | length);
+    } else if (length <= 0xff) {
+      writer.u8(0xd9);
+      writer.u8(length);
+    } else if (length <= 0xffff) {
+      writer.u8(0xda);
+      writer.u16(length);
+    } else {
+      writer.u8(0xdb);
+      writer.u32(length);
+    }
+    writer.bytes(bytes);
+  } else if (isBinary(value)) {
+    const bytes = toBytes(value);
+    const length = bytes.length;
+    if (length <= 0xff) {
+      writer.u8(0xc4);
+      writer.u8(length);
+    } else if (length <= 0xffff) {
+      writer.u8(0xc5);
+      writer.u16(length);
+    } else {
+      writer.u8(0xc6);
+      writer.u32(length);
+    }
+    writer.bytes(bytes);
+  } else if (value instanceof Date) {
+    // timestamp 96：nsec(uint32) + sec(int64)
+    const time = value.getTime();
+    const seconds = Math.floor(time / 1000);
+    writer.u8(0xc7);
+    writer.u8(12);
+    writer.u8(MSGPACK_TIMESTAMP_TYPE & 0xff);
+    writer.u32((time - seconds * 1000) * 1e6);
+    writer.i64(BigInt(seconds));
+  } else if (Array.isArray(value)) {
+    const length = value.length;
+    if (length < 16) {
+      writer.u8(0x90 | length);
+    } else if (length <= 0xffff) {
+      writer.u8(0xdc);
+      writer.u16(length);
+    } else {
+      writer.u8(0xdd);
+      writer.u32(length);
+    }
+    for (const item of value) {
+      msgpackEncode(writer, item);
+    }
+  } else if (typeof value === 'object') {
+    if (typeof value.toJSON === 'function') {
+      msgpackEncode(writer, value.toJSON());
+      return;
+    }
+    const entries = objectEntries(value);
+    const length = entries.length;
+    if (length < 16) {
+      writer.u8(0x80 | length);
+    } else if (length <= 0xffff) {
+      writer.u8(0xde);
+      writer.u16(length);
+    } else {
+      writer.u8(0xdf);
+      writer.u32(length);
+    }
+    for (const [key, item] of entries) {
+      msgpackEncode(writer, key);
+      msgpackEncode(writer, item);
+    }
+  } else {
+    // 函数、symbol 与 JSON 一样编码为 null
+    writer.u8(0xc0);
+  }
+}
+
+function msgpackDecodeArray(reader: ByteReader, length: number): any[] {
+  const result = new Array(length);
+  for (let i = 0; i < length; i++) {
+    result[i] = msgpackDecode(reader);
+  }
+  return result;
+}
+
+function msgpackDecodeMap(
+  reader: ByteReader,
+  length: number
+): Record<string, any> {
+  const result: Record<string, any> = {};
+  for (let i = 0; i < length; i++) {
+    const key = String(msgpackDecode(reader));
+    result[key] = msgpackDecode(reader);
+  }
+  return result;
+}
+
+function msgpackDecodeExt(reader: ByteReader, length: number): any {
+  const type = reader.i8();
+  if (type !== MSGPACK_TIMESTAMP_TYPE) {
+    // 未知扩展类型，返回原始数据
+    return { type, data: reader.bytes(length) };
+  }
+  if (length === 4) {
+    return new Date(reader.u32() * 1000);
+  }
+  if (length === 8) {
+    const high = reader.u32();
+    const low = reader.u32();
+    const nanoseconds = high >>> 2;
+    const seconds = (high & 0x3) * 0x100000000 + low;
+    return new Date(seconds * 1000 + nanoseconds / 1e6);
+  }
+  if (length === 12) {
+    const nanoseconds = reader.u32();
+    const seconds = Number(reader.i64());
+    return new Date(seconds * 1000 + nanoseconds / 1e6);
+  }
+  throw new Error(`Invalid MessagePack timestamp length: ${length}`);
+}
+
+function msgpackDecode(reader: ByteReader): any {
+  const byte = reader.u8();
+  if (byte < 0x80) return byte;
+  if (byte < 0x90) return msgpackDecodeMap(reader, byte & 0x0f);
+  if (byte < 0xa0) return msgpackDecodeArray(reader, byte & 0x0f);
+  if (byte < 0xc0) return reader.str(byte & 0x1f);
+  if (byte >= 0xe0) return byte - 0x100;
+
+  switch (byte) {
+    case 0xc0:
+      return null;
+    case 0xc2:
+      return false;
+    case 0xc3:
+      return true;
+    case 0xc4:
+      return reader.bytes(reader.u8());
+    case 0xc5:
+      return reader.bytes(reader.u16());
+    case 0xc6:
+      return reader.bytes(reader.u32());
+    case 0xc7:
+      return msgpackDecodeExt(reader, reader.u8());
+    case 0xc8:
+      return msgpackDecodeExt(reader, reader.u16());
+    case 0xc9:
+      return msgpackDecodeExt(reader, reader.u32());
+    case 0xca:
+      return reader.f32();
+    case 0xcb:
+      return reader.f64();
+    case 0xcc:
+      return reader.u8();
+    case 0xcd:
+      return reader.u16();
+    case 0xce:
+      return reader.u32();
+    case 0xcf:
+      return reader.u64();
+    case 0xd0:
+      return reader.i8();
+    case 0xd1:
+      return reader.i16();
+    case 0xd2:
+      return reader.i32();
+    case 0xd3:
+      return reader.i64();
+    case 0xd4:
+      return msgpackDecodeExt(reader, 1);
+    case 0xd5:
+      return msgpackDecodeExt(reader, 2);
+    case 0xd6:
+      return msgpackDecodeExt(reader, 4);
+    case 0xd7:
+      return msgpackDecodeExt(reader, 8);
+    case 0xd8:
+      return msgpackDecodeExt(reader, 16);
+    case 0xd9:
+      return reader.str(reader.u8());
+    case 0xda:
+      return reader.str(reader.u16());
+    case 0xdb:
+      return reader.str(reader.u32());
+    case 0xdc:
+      return msgpackDecodeArray(reader, reader.u16());
+    case 0xdd:
+      return msgpackDecodeArray(reader, reader.u32());
+    case 0xde:
+      return msgpackDecodeMap(reader, reader.u16());
+    case 0xdf:
+      return msgpackDecodeMap(reader, reader.u32());
+    default:
+      throw new Error(`Invalid MessagePack byte: 0x${byte.toString(16)}`);
+  }
+}
+
+/**
+ * 解码二进制消息，要求数据被完整消费
+ */
+function decodeBinary(
+  data: string | Uint8Array,
+  decode: (reader: ByteReader) => any
+): InternalMessage {
+  if (typeof data === 'string') {
+    throw new Error('Binary codec cannot decode text message');
+  }
+  const reader = new ByteReader(data);
+  const message = decode(reader);
+  if (!reader.done) {
+    throw new Error('Unexpected trailing data');
+  }
+  return message as InternalMessage;
+}
+
+/**
+ * MessagePack 编解码器
+ * Uint8Array / Buffer / ArrayBuffer 编码为 bin 类型，解码后为 Uint8Array（服务器端为 Buffer）；Date 使用时间戳扩展类型
+ */
+export const msgpackCodec: MasSocketCodec = {
+  name: 'msgpack',
+  binary: true,
+  encode: (message) => {
+    const writer = new ByteWriter();
+    msgpackEncode(writer, message);
+    return writer.result();
+  },
+  decode: (data) => decodeBinary(data, msgpackDecode),
+};
+
+/**
+ * 写入 CBOR 数据项头部（主类型 + 参数）
+ */
+function cborHead(writer: ByteWriter, major: number, argument: number): void {
+  const type = major << 5;
+  if (argument < 24) {
+    writer.u8(type | argument);
+  } else if (argument <= 0xff) {
+    writer.u8(type | 24);
+    writer.u8(argument);
+  } else if (argument <= 0xffff) {
+    writer.u8(type | 25);
+    writer.u16(argument);
+  } else if (argument <= 0xffffffff) {
+    writer.u8(type | 26);
+    writer.u32(argument);
+  } else {
+    writer.u8(type | 27);
+    writer.u64(BigInt(argument));
+  }
+}
+
+function cborEncode(writer: ByteWriter, value: any): void {
+  if (value === null || value === undefined) {
+    writer.u8(0xf6);
+  } else if (value === false) {
+    writer.u8(0xf4);
+  } else if (value === true) {
+    writer.u8(0xf5);
+  } else if (typeof value === 'number') {
+    if (Number.isSafeInteger(value)) {
+      if (value >= 0) {
+        cborHead(writer, 0, value);
+      } else {
+        cborHead(writer, 1, -1 - value);
+      }
+    } else {
+      writer.u8(0xfb);
+      writer.f64(value);
+    }
+  } else if (typeof value === 'bigint') {
+    if (value >= 0n) {
+      writer.u8(0x1b);
+      writer.u64(value);
+    } else {
+      writer.u8(0x3b);
+      writer.u64(-1n - value);
+    }
+  } else if (typeof value === 'string') {
+    const bytes = textEncoder.encode(value);
+    cborHead(writer, 3, bytes.length);
+    writer.bytes(bytes);
+  } else if (isBinary(value)) {
+    const bytes = toBytes(value);
+    cborHead(writer, 2, bytes.length);
+    writer.bytes(bytes);
+  } else if (value instanceof Date) {
+    // tag 1：以秒为单位的时间戳
+    cborHead(writer, 6, 1);
+    cborEncode(writer, value.getTime() / 1000);
+  } else if (Array.isArray(value)) {
+    cborHead(writer, 4, value.length);
+    for (const item of value) {
+      cborEncode(writer, item);
+    }
+  } else if (typeof value === 'object') {
+    if (typeof value.toJSON === 'function') {
+      cborEncode(writer, value.toJSON());
+      return;
+    }
+    const entries = objectEntries(value);
+    cborHead(writer, 5, entries.length);
+    for (const [key, item] of entries) {
+      cborEncode(writer, key);
+      cborEncode(writer, item);
+    }
+  } else {
+    writer.u8(0xf6);
+  }
+}
+
+/** CBOR 不定长数据的结束标记 */
+const CBOR_BREAK = Symbol('break');
+
+/**
+ * 读取 CBOR 参数
+ */
+function cborArgument(reader: ByteReader, info: number): number | bigint {
+  if (info < 24) return info;
+  switch (info) {
+    case 24:
+      return reader.u8();
+    case 25:
+      return reader.u16();
+    case 26:
+      return reader.u32();
+    case 27:
+      return reader.u64();
+    default:
+      throw new Error(`Invalid CBOR additional info: ${info}`);
+  }
+}
+
+/**
+ * 读取长度参数，不定长（31）时返回 -1
+ */
+function cborLength(reader: ByteReader, info: number): number {
+  if (info === 31) return -1;
+  const length = cborArgument(reader, info);
+  if (typeof length === 'bigint') {
+    throw new Error('CBOR length is too large');
+  }
+  return length;
+}
+
+/**
+ * 读取不定长字节串/文本串的分块
+ */
+function cborChunks(reader: ByteReader, major: number): Uint8Array[] {
+  const chunks: Uint8Array[] = [];
+  for (;;) {
+    const byte = reader.u8();
+    if (byte === 0xff) return chunks;
+    if (byte >> 5 !== major) {
+      throw new Error('Invalid CBOR indefinite-length chunk');
+    }
+    chunks.push(reader.bytes(cborLength(reader, byte & 0x1f)));
+  }
+}
+
+function concatBytes(chunks: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(
+    chunks.reduce((total, chunk) => total + chunk.length, 0)
+  );
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
+
+function cborDecodeItem(reader: ByteReader): any {
+  const byte = reader.u8();
+  const major = byte >> 5;
+  const info = byte & 0x1f;
+
+  switch (major) {
+    case 0:
+      return cborArgument(reader, info);
+    case 1: {
+      const argument = cborArgument(reader, info);
+      if (typeof argument === 'bigint') return -1n - argument;
+      return -1 - argument;
+    }
+    case 2: {
+      const length = cborLength(reader, info);
+      if (length >= 0) return reader.bytes(length);
+      return concatBytes(cborChunks(reader, 2));
+    }
+    case 3: {
+      const length = cborLength(reader, info);
+      if (length >= 0) return reader.str(length);
+      return textDecoder.decode(concatBytes(cborChunks(reader, 3)));
+    }
+    case 4: {
+      const length = cborLength(reader, info);
+      const result: any[] = [];
+      if (length >= 0) {
+        for (let i = 0; i < length; i++) {
+          result.push(cborDecode(reader));
+        }
+        return result;
+      }
+      for (;;) {
+        const item = cborDecodeItem(reader);
+        if (item === CBOR_BREAK) return result;
+        result.push(item);
+      }
+    }
+    case 5: {
+      const length = cborLength(reader, info);
+      const result: Record<string, any> = {};
+      for (let i = 0; length < 0 || i < length; i++) {
+        const key = cborDecodeItem(reader);
+        if (key === CBOR_BREAK) {
+          if (length < 0) return result;
+          throw new Error('Unexpected CBOR break');
+        }
+        result[String(key)] = cborDecode(reader);
+      }
+      return result;
+    }
+    case 6: {
+      const tag = cborArgument(reader, info);
+      const content = cborDecode(reader);
+      if (tag === 0 && typeof content === 'string') return new Date(content);
+      if (tag === 1 && typeof content === 'number') {
+        return new Date(content * 1000);
+      }
+      // 其他 tag 只保留内容
+      return content;
+    }
+    default:
+      switch (info) {
+        case 20:
+          return false;
+        case 21:
+          return true;
+        case 22:
+        case 23:
+          return null;
+        case 25:
+          return reader.f16();
+        case 26:
+          return reader.f32();
+        case 27:
+          return reader.f64();
+        case 31:
+          return CBOR_BREAK;
+        default:
+          if (info < 24) return null;
+          if (info === 24) {
+            reader.u8();
+            return null;
+          }
+          throw new Error(`Invalid CBOR simple value: ${info}`);
+      }
+  }
+}
+
+function cborDecode(reader: ByteReader): any {
+  const value = cborDecodeItem(reader);
+  if (value === CBOR_BREAK) {
+    throw new Error('Unexpected CBOR break');
+  }
+  return value;
+}
+
+/**
+ * CBOR 编解码器
+ * Uint8Array / Buffer / ArrayBuffer 编码为字节串，解码后为 Uint8Array（服务器端为 Buffer）；Date 使用 tag 1
+ */
+export const cborCodec: MasSocketCodec = {
+  name: 'cbor',
+  binary: true,
+  encode: (message) => {
+    const writer = new ByteWriter();
+    cborEncode(writer, message);
+    return writer.result();
+  },
+  decode: (data) => decodeBinary(data, cborDecode),
+};
+
+/**
+ * 内置编解码器
+ */
+export const builtinCodecs = {
+  json: jsonCodec,
+  msgpack: msgpackCodec,
+  cbor: cborCodec,
+};
+
+/**
+ * 内置编解码器名称
+ */
+export type CodecName = keyof typeof builtinCodecs;
@@ -0,0 +1,143 @@
+import { test, expect, describe } from 'bun:test';
+import { EventQueue } from './concurrency';
+import type { ConcurrencyConfig } from './type';
+import { flush } from './test-helpers';
+
+/**
+ * 可以手动完成的任务，记录开始和完成的顺序
+ */
+function createTasks() {
+  const started: string[] = [];
+  const finishers = new Map<string, () => void>();
+  const task = (name: string) => () =>
+    new Promise<void>((resolve) => {
+      started.push(name);
+      finishers.set(name, resolve);
+    });
+  const finish = async (name: string) => {
+    finishers.get(name)!();
+    await flush();
+  };
+  return { started, task, finish };
+}
+
+const createQueue = (config: Partial<ConcurrencyConfig>) => {
+  const current: ConcurrencyConfig = {
+    mode: 'parallel',
+    limit: 10,
+    maxQueue: 1000,
+    ...config,
+  };
+  return { queue: new EventQueue(() => current), config: current };
+};
+
+describe('EventQueue', () => {
+  test('parallel 模式立即执行所有任务', () => {
+    const { queue } = createQueue({ mode: 'parallel', maxQueue: 0 });
+    const { started, task } = createTasks();
+    for (const name of ['a', 'b', 'c']) {
+      expect(queue.push(name, task(name))).toBe(true);
+    }
+    expect(started).toEqual(['a', 'b', 'c']);
+    expect(queue.size).toBe(3);
+  });
+
+  test('serial 模式按到达顺序逐个执行', async () => {
+    const { queue } = createQueue({ mode: 'serial' });
+    const { started, task, finish } = createTasks();
+    queue.push('a', task('a'));
+    queue.push('b', task('b'));
+    queue.push('c', task('c'));
+    expect(started).toEqual(['a']);
+    expect(queue.size).toBe(3);
+
+    await finish('a');
+    expect(started).toEqual(['a', 'b']);
+    await finish('b');
+    expect(started).toEqual(['a', 'b', 'c']);
+    await finish('c');
+    expect(queue.size).toBe(0);
+  });
+
+  test('limited 模式最多同时执行 limit 个任务', async () => {
+    const { queue } = createQueue({ mode: 'limited', limit: 2 });
+    const { started, task, finish } = createTasks();
+    for (const name of ['a', 'b', 'c', 'd']) {
+      queue.push(name, task(name));
+    }
+    expect(started).toEqual(['a', 'b']);
+
+    await finish('b');
+    expect(started).toEqual(['a', 'b', 'c']);
+    await finish('a');
+    expect(started).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  test('limited 模式的 limit 小于 1 时按 1 处理', () => {
+    const { queue } = createQueue({ mode: 'limited', limit: 0 });
+    const { started, task } = createTasks();
+    queue.push('a', task('a'));
+    queue.push('b', task('b'));
+    expect(started).toEqual(['a']);
+  });
+
+  test('有排队的任务时，空出的位置按到达顺序分配', async () => {
+    const { queue, config } = createQueue({ mode: 'serial' });
+    const { started, task, finish } = createTasks();
+    queue.push('a', task('a'));
+    queue.push('b', task('b'));
+    // 切换为 limited 后，新任务仍排在已排队的任务之后
+    config.mode = 'limited';
+    config.limit = 2;
+    queue.push('c', task('c'));
+    expect(started).toEqual(['a']);
+    await finish('a');
+    expect(started).toEqual(['a', 'b', 'c']);
+  });
+
+  test('排队数量达到 maxQueue 时拒绝新任务', async () => {
+    const { queue } = createQueue({ mode: 'serial', maxQueue: 2 });
+    const { started, task, finish } = createTasks();
+    expect(queue.push('a', task('a'))).toBe(true);
+    expect(queue.push('b', task('b'))).toBe(true);
+    expect(queue.push('c', task('c'))).toBe(true);
+    expect(queue.push('d', task('d'))).toBe(false);
+    expect(queue.size).toBe(3);
+
+    await finish('a');
+    expect(queue.push('e', task('e'))).toBe(true);
+    await finish('b');
+    await finish('c');
+    expect(started).toEqual(['a', 'b', 'c', 'e']);
+  });
+
+  test('取消排队中的请求', async () => {
+    const { queue } = createQueue({ mode: 'serial' });
+    const { started, task, finish } = createTasks();
+    queue.push('a', task('a'));
+    queue.push('b', task('b'));
+    queue.push('c', task('c'));
+
+    expect(queue.cancel('b')).toBe(true);
+    expect(queue.cancel('b')).toBe(false);
+    // 处理中的请求和不需要回复的事件无法通过 cancel 移除
+    expect(queue.cancel('a')).toBe(false);
+    expect(queue.cancel('')).toBe(false);
+    expect(queue.size).toBe(2);
+
+    await finish('a');
+    expect(started).toEqual(['a', 'c']);
+  });
+
+  test('clear 丢弃排队中的任务，处理中的任务继续执行', async () => {
+    const { queue } = createQueue({ mode: 'serial' });
+    const { started, task, finish } = createTasks();
+    queue.push('a', task('a'));
+    queue.push('b', task('b'));
+    queue.clear();
+    expect(queue.size).toBe(1);
+    await finish('a');
+    expect(started).toEqual(['a']);
+    expect(queue.size).toBe(0);
+  });
+});
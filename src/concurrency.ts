@@ -0,0 +1,90 @@
+import type { ConcurrencyConfig } from './type';
+
+/**
+ * 排队中的任务
+ */
+interface QueuedTask {
+  /** 请求 ID，用于取消排队中的请求 */
+  fetchId: string;
+  run: () => Promise<void>;
+}
+
+/**
+ * 单个连接的事件处理队列
+ * 按配置的执行模式限制同时处理的事件数量，超出的事件按到达顺序排队
+ */
+export class EventQueue {
+  private running: number = 0;
+  private queue: QueuedTask[] = [];
+
+  constructor(private getConfig: () => ConcurrencyConfig) {}
+
+  /**
+   * 当前执行模式允许同时处理的事件数量
+   */
+  private get limit(): number {
+    const { mode, limit } = this.getConfig();
+    if (mode === 'serial') return 1;
+    if (mode === 'limited') return Math.max(1, limit);
+    return Infinity;
+  }
+
+  /**
+   * 处理中和排队中的事件数量
+   */
+  get size(): number {
+    return this.running + this.queue.length;
+  }
+
+  /**
+   * 提交事件处理任务，有空闲时立即执行，否则排队
+   * @param fetchId - 请求 ID（不需要回复的事件为空字符串）
+   * @param run - 处理任务，不应抛出错误
+   * @returns 排队数量已达上限时返回 false，任务不会被执行
+   */
+  push(fetchId: string, run: () => Promise<void>): boolean {
+    // 有排队的任务时新任务也需排队，保证按到达顺序执行
+    if (this.running < this.limit && this.queue.length === 0) {
+      this.start(run);
+      return true;
+    }
+    if (this.queue.length >= this.getConfig().maxQueue) {
+      return false;
+    }
+    this.queue.push({ fetchId, run });
+    return true;
+  }
+
+  /**
+   * 移除排队中的请求（请求被取消时）
+   * @returns 是否移除了排队中的请求
+   */
+  cancel(fetchId: string): boolean {
+    if (!fetchId) return false;
+    const index = this.queue.findIndex((task) => task.fetchId === fetchId);
+    if (index === -1) return false;
+    this.queue.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * 丢弃所有排队中的任务（连接断开时）
+   */
+  clear(): void {
+    this.queue = [];
+  }
+
+  private start(run: () => Promise<void>): void {
+    this.running++;
+    run().finally(() => {
+      this.running--;
+      this.drain();
+    });
+  }
+
+  private drain(): void {
+    while (this.queue.length > 0 && this.running < this.limit) {
+      this.start(this.queue.shift()!.run);
+    }
+  }
+}
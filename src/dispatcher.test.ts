@@ -0,0 +1,170 @@
+import { test, expect, describe } from 'bun:test';
+import { EventDispatcher } from './dispatcher';
+import type { BaseEventContext } from './dispatcher';
+import { silentLogger } from './logger';
+import type { Message } from './type';
+
+interface TestContext extends BaseEventContext {
+  reply: (response: Message) => void;
+}
+
+/**
+ * 分发一个事件，记录发送的回复
+ * @returns 发送的回复，以及分发结束后仍可调用的 respond
+ */
+async function dispatch(
+  dispatcher: EventDispatcher<TestContext>,
+  event: string,
+  data: any = null,
+  options: { fetchId?: string; started?: () => boolean } = {}
+) {
+  const sent: Message[] = [];
+  let respond!: (response: Message) => void;
+  await dispatcher.dispatch(
+    (r) => {
+      respond = r;
+      return {
+        reply: r,
+        body: { code: 200, data, msg: '' },
+        fetchId: options.fetchId ?? 'f1',
+        header: {},
+        event,
+        params: {},
+        signal: new AbortController().signal,
+        state: {},
+      };
+    },
+    {
+      send: (response) => sent.push(response),
+      started: options.started,
+      logger: silentLogger,
+      logFields: {},
+    }
+  );
+  return { sent, respond };
+}
+
+const ok = (data: any): Message => ({ code: 200, data, msg: 'success' });
+
+describe('EventDispatcher', () => {
+  test('精确匹配的处理器优先，模式处理器收到参数', async () => {
+    const dispatcher = new EventDispatcher<TestContext>();
+    const calls: string[] = [];
+    dispatcher.on('room/:roomId/message', async ({ params }) => {
+      calls.push(`pattern:${params.roomId}`);
+    });
+    dispatcher.on('room/1/message', async ({ params }) => {
+      calls.push(`exact:${JSON.stringify(params)}`);
+    });
+
+    const { sent } = await dispatch(dispatcher, 'room/1/message');
+    expect(calls).toEqual(['exact:{}', 'pattern:1']);
+    // 处理器都没有回复
+    expect(sent).toEqual([
+      { code: 404, data: null, msg: 'No handler for event: room/1/message' },
+    ]);
+  });
+
+  test('第一个回复后不再执行后续处理器，只发送一次', async () => {
+    const dispatcher = new EventDispatcher<TestContext>();
+    let second = false;
+    dispatcher.on('a', async ({ reply }) => {
+      reply(ok(1));
+      reply(ok(2));
+    });
+    dispatcher.on('a', async () => {
+      second = true;
+    });
+    const { sent, respond } = await dispatch(dispatcher, 'a');
+    respond(ok(3));
+    expect(sent).toEqual([ok(1)]);
+    expect(second).toBe(false);
+  });
+
+  test('没有匹配的处理器时交给 onAny，不需要回复的事件不回复 404', async () => {
+    const dispatcher = new EventDispatcher<TestContext>();
+    const events: string[] = [];
+    dispatcher.onAny(async ({ event }) => {
+      events.push(event);
+    });
+    const { sent } = await dispatch(dispatcher, 'x', null, { fetchId: '' });
+    expect(events).toEqual(['x']);
+    expect(sent).toEqual([]);
+  });
+
+  test('校验失败时回复 400 且不执行处理器，通过时处理器收到校验后的数据', async () => {
+    const dispatcher = new EventDispatcher<TestContext>();
+    const received: any[] = [];
+    dispatcher.on('a', {
+      schema: { type: 'object', required: ['name'] },
+      handler: async ({ body, reply }) => {
+        received.push(body.data);
+        reply(ok(null));
+      },
+    });
+
+    const failed = await dispatch(dispatcher, 'a', {});
+    expect(failed.sent[0]!.code).toBe(400);
+    expect(failed.sent[0]!.data.errors).toHaveLength(1);
+    expect(received).toEqual([]);
+
+    const passed = await dispatch(dispatcher, 'a', { name: 'x' });
+    expect(passed.sent).toEqual([ok(null)]);
+    expect(received).toEqual([{ name: 'x' }]);
+  });
+
+  test('中间件在 await next() 之后修改回复，只对匹配的事件生效', async () => {
+    const dispatcher = new EventDispatcher<TestContext>();
+    dispatcher.use('admin:*', async (ctx, next) => {
+      await next();
+      ctx.response = { ...ctx.response!, msg: 'wrapped' };
+    });
+    dispatcher.on('admin:*', async ({ reply }) => reply(ok(1)));
+    dispatcher.on('user', async ({ reply }) => reply(ok(2)));
+
+    expect((await dispatch(dispatcher, 'admin:get')).sent).toEqual([
+      { code: 200, data: 1, msg: 'wrapped' },
+    ]);
+    expect((await dispatch(dispatcher, 'user')).sent).toEqual([ok(2)]);
+  });
+
+  test('未被捕获的处理器和中间件错误回复 500', async () => {
+    const dispatcher = new EventDispatcher<TestContext>();
+    dispatcher.use('b', () => {
+      throw new Error('middleware');
+    });
+    dispatcher.on('a', async () => {
+      throw new Error('handler');
+    });
+    expect((await dispatch(dispatcher, 'a')).sent).toEqual([
+      { code: 500, data: null, msg: 'Handler error' },
+    ]);
+    expect((await dispatch(dispatcher, 'b')).sent).toEqual([
+      { code: 500, data: null, msg: 'Middleware error' },
+    ]);
+  });
+
+  test('已通过其他方式开始回复时不执行处理器', async () => {
+    const dispatcher = new EventDispatcher<TestContext>();
+    let called = false;
+    dispatcher.on('a', async () => {
+      called = true;
+    });
+    const { sent } = await dispatch(dispatcher, 'a', null, {
+      started: () => true,
+    });
+    expect(called).toBe(false);
+    expect(sent).toEqual([]);
+  });
+
+  test('中间件执行完后的回复直接发送', async () => {
+    const dispatcher = new EventDispatcher<TestContext>();
+    dispatcher.on('a', async () => {});
+    const { sent, respond } = await dispatch(dispatcher, 'a', null, {
+      fetchId: '',
+    });
+    expect(sent).toEqual([]);
+    respond(ok('late'));
+    expect(sent).toEqual([ok('late')]);
+  });
+});
@@ -0,0 +1,277 @@
+import type { Message } from './type';
+import type { LogFields, Logger } from './logger';
+import { validateSchema } from './schema';
+import type { Schema } from './schema';
+import { runMiddlewares, runUntilReplied } from './middleware';
+import type { Next } from './middleware';
+import { compileRoute, isRoutePattern, matchRoute } from './pattern';
+import type { CompiledRoute } from './pattern';
+
+/**
+ * 服务器和客户端的事件上下文共有的字段，中间件和事件处理器共用同一个对象
+ */
+export interface BaseEventContext<Req = any> {
+  body: Message<Req>;
+  fetchId: string;
+  header: Record<string, string>;
+  event: string;
+  /** 模式路由（如 'room/:roomId/message'）中提取的参数，精确匹配的事件为空对象 */
+  params: Record<string, string>;
+  /** 取消信号，请求被取消或连接断开时中止 */
+  signal: AbortSignal;
+  /** 中间件向下游中间件和事件处理器传递数据 */
+  state: Record<string, any>;
+  /** 待发送的回复（header 为回复头部），可以修改或替换，所有中间件执行完后发送 */
+  response?: Message;
+}
+
+/**
+ * 事件处理器，C 为服务器或客户端的事件上下文
+ */
+export type ContextHandler<C> = (ctx: C) => Promise<void>;
+
+/**
+ * 中间件（洋葱模型），C 为服务器或客户端的事件上下文
+ * 调用 await next() 执行下游的中间件和事件处理器，之后可以检查或修改 ctx.response
+ * 不调用 next 且没有回复时，自动继续执行下游
+ */
+export type ContextMiddleware<C> = (ctx: C, next: Next) => Promise<void> | void;
+
+/**
+ * 带数据校验的事件处理器
+ */
+export interface ContextHandlerOptions<Req, H> {
+  /** body.data 的校验器（Standard Schema 或 JSON Schema），校验失败时回复 400 且不执行处理器 */
+  schema: Schema<Req>;
+  handler: H;
+}
+
+/**
+ * 已注册的事件处理器
+ */
+interface RegisteredHandler<C> {
+  handler: ContextHandler<C>;
+  /** body.data 的校验器 */
+  schema?: Schema;
+}
+
+/**
+ * 处理单个事件时由调用方提供的回调和日志配置
+ */
+export interface DispatchOptions {
+  /** 发送回复，在中间件执行完后（或之后的回复时）调用，最多调用一次 */
+  send: (response: Message) => void;
+  /** 是否已通过其他方式开始回复（如流式回复已发送分块），开始后不再执行下游的处理器 */
+  started?: () => boolean;
+  logger: Logger;
+  /** 记录日志时附带的字段，如客户端 ID */
+  logFields: LogFields;
+}
+
+/**
+ * 事件分发器，服务器和客户端共用
+ * 管理事件处理器和中间件的注册，按洋葱模型执行中间件，校验请求数据后执行事件处理器
+ */
+export class EventDispatcher<C extends BaseEventContext> {
+  /** 精确匹配的事件处理器：事件名 -> 处理器列表 */
+  private eventHandlers: Map<string, RegisteredHandler<C>[]> = new Map();
+  /** 模式匹配的事件处理器（如 'user:*'），按注册顺序匹配 */
+  private patternHandlers: (RegisteredHandler<C> & { route: CompiledRoute })[] =
+    [];
+  /** 没有匹配任何处理器的事件由这些处理器处理 */
+  private anyHandlers: ContextHandler<C>[] = [];
+  /** 中间件，pattern 存在时只对匹配的事件生效 */
+  private middlewares: { pattern?: RegExp; handler: ContextMiddleware<C> }[] =
+    [];
+
+  /**
+   * 注册事件处理器
+   * @param event - 事件名或模式（如 'user:*'、'room/:roomId/message'）
+   */
+  on(
+    event: string,
+    handler: ContextHandler<C> | ContextHandlerOptions<any, ContextHandler<C>>
+  ): void {
+    const registered: RegisteredHandler<C> =
+      typeof handler === 'function'
+        ? { handler }
+        : { handler: handler.handler, schema: handler.schema };
+
+    if (isRoutePattern(event)) {
+      this.patternHandlers.push({ ...registered, route: compileRoute(event) });
+      return;
+    }
+    if (!this.eventHandlers.has(event)) {
+      this.eventHandlers.set(event, []);
+    }
+    this.eventHandlers.get(event)!.push(registered);
+  }
+
+  /**
+   * 注册兜底的事件处理器，事件没有匹配任何精确或模式处理器时执行
+   */
+  onAny(handler: ContextHandler<C>): void {
+    this.anyHandlers.push(handler);
+  }
+
+  /**
+   * 注册中间件
+   * @param pattern - 事件名模式，不提供时对所有事件生效
+   */
+  use(pattern: string | undefined, handler: ContextMiddleware<C>): void {
+    this.middlewares.push({
+      pattern: pattern === undefined ? undefined : compileRoute(pattern).regex,
+      handler,
+    });
+  }
+
+  /**
+   * 查找事件的处理器
+   * 精确匹配的处理器在前，之后为按注册顺序匹配的模式处理器
+   */
+  private findHandlers(
+    event: string
+  ): (RegisteredHandler<C> & { params: Record<string, string> })[] {
+    const matched = (this.eventHandlers.get(event) ?? []).map((registered) => ({
+      ...registered,
+      params: {},
+    }));
+    for (const { route, ...registered } of this.patternHandlers) {
+      const params = matchRoute(route, event);
+      if (params) {
+        matched.push({ ...registered, params });
+      }
+    }
+    return matched;
+  }
+
+  /**
+   * 处理一个事件，执行匹配的中间件和事件处理器
+   * - 回复在中间件执行完之前暂存到 ctx.response，中间件执行完后发送，之后的回复（如流式回复结束时）直接发送
+   * - 处理器回复后中间件不再等待它执行完，但本方法在处理器执行完后才返回
+   * - 请求数据校验失败回复 400，需要回复但没有处理器回复时回复 404，未被捕获的错误回复 500
+   * @param createContext - 创建事件上下文，ctx.reply 将回复转换为 Message 后交给 respond
+   * @param options - 发送回复的回调和日志配置
+   */
+  async dispatch(
+    createContext: (respond: (response: Message) => void) => C,
+    options: DispatchOptions
+  ): Promise<void> {
+    const { send, started = () => false, logger, logFields } = options;
+
+    /** 回复是否已发送 */
+    let replied = false;
+    /** 中间件和事件处理器是否已执行完 */
+    let settled = false;
+    /** 回复被暂存时 resolve，处理器回复后中间件不再等待它执行完 */
+    let notifyReplied!: () => void;
+    const staged = new Promise<void>((resolve) => (notifyReplied = resolve));
+    /** 回复后仍在执行的处理器 */
+    const detached: Promise<void>[] = [];
+
+    const deliver = (response: Message) => {
+      if (replied) return;
+      replied = true;
+      send(response);
+    };
+    // 只有第一次回复生效
+    const respond = (response: Message) => {
+      if (replied || ctx.response !== undefined) return;
+      if (settled) {
+        deliver(response);
+      } else {
+        ctx.response = response;
+        notifyReplied();
+      }
+    };
+
+    const ctx = createContext(respond);
+    const { event, fetchId, body } = ctx;
+    const isReplied = () => replied || ctx.response !== undefined || started();
+
+    // 最内层：校验请求数据，执行事件处理器
+    let handlerFailed = false;
+    const runHandlers = async () => {
+      if (isReplied()) return;
+
+      // 校验请求数据，失败时回复 400 和字段错误
+      const matched = this.findHandlers(event);
+      for (const { schema } of matched) {
+        if (!schema) continue;
+        let result;
+        try {
+          result = await validateSchema(schema, body?.data);
+        } catch (error) {
+          logger.error({ ...logFields, err: error }, 'Schema validation error');
+          respond({ code: 500, data: null, msg: 'Validation error' });
+          return;
+        }
+        if (result.issues) {
+          respond({
+            code: 400,
+            data: { errors: result.issues },
+            msg: 'Validation failed',
+          });
+          return;
+        }
+        if (body) {
+          body.data = result.value;
+        }
+      }
+
+      // 没有匹配的处理器时交给 onAny 注册的处理器
+      const handlers =
+        matched.length > 0
+          ? matched
+          : this.anyHandlers.map((handler) => ({ handler, params: {} }));
+      for (const { handler, params } of handlers) {
+        if (isReplied()) break;
+        ctx.params = params;
+        const run = async () => {
+          try {
+            await handler(ctx);
+          } catch (error) {
+            handlerFailed = true;
+            logger.error({ ...logFields, err: error }, 'Event handler error');
+            throw error;
+          }
+        };
+        await runUntilReplied(run, staged, detached);
+      }
+
+      // 如果没有处理器且需要回复，发送默认回复
+      if (!isReplied() && fetchId) {
+        respond({
+          code: 404,
+          data: null,
+          msg: `No handler for event: ${event}`,
+        });
+      }
+    };
+
+    // 按洋葱模型执行匹配的中间件，未被捕获的错误回复 500
+    const middlewares = this.middlewares
+      .filter(({ pattern }) => !pattern || pattern.test(event))
+      .map(({ handler }) => handler);
+    try {
+      await runMiddlewares(middlewares, ctx, runHandlers, isReplied);
+    } catch (error) {
+      if (!handlerFailed) {
+        logger.error({ ...logFields, err: error }, 'Middleware error');
+      }
+      respond({
+        code: 500,
+        data: null,
+        msg: handlerFailed ? 'Handler error' : 'Middleware error',
+      });
+    }
+
+    settled = true;
+    if (ctx.response !== undefined) {
+      deliver(ctx.response);
+    }
+
+    // 处理器执行完才算处理结束（串行执行、关闭服务器时等待的是完整的处理过程）
+    await Promise.all(detached);
+  }
+}
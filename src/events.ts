@@ -0,0 +1,60 @@
+/**
+ * 单个事件的约定
+ * - req：发起请求时发送的数据（处理器中的 body.data）
+ * - res：处理器回复的数据（fetch 收到的回复中的 data）
+ */
+export interface EventDefinition {
+  req: any;
+  res: any;
+}
+
+/**
+ * 事件表：事件名 -> 事件约定
+ * 服务器和客户端共用同一份事件表，两个方向的请求都按事件名查找约定
+ */
+export type EventMap = Record<string, EventDefinition>;
+
+/**
+ * 默认事件表，未约定事件时所有事件名均可使用，数据类型均为 any
+ */
+export type AnyEvents = Record<string, { req: any; res: any }>;
+
+/**
+ * 事件表中的事件名
+ */
+export type EventName<E extends EventMap> = Extract<keyof E, string>;
+
+/**
+ * 事件的请求数据类型
+ */
+export type EventRequest<E extends EventMap, K extends string> =
+  K extends keyof E ? E[K]['req'] : any;
+
+/**
+ * 事件的回复数据类型
+ */
+export type EventResponse<E extends EventMap, K extends string> =
+  K extends keyof E ? E[K]['res'] : any;
+
+/**
+ * 事件约定（defineEvents 的返回值）
+ * 只在类型层面携带事件表，传给 MasSocketServer / MasSocketClinet 的构造函数用于推导泛型参数
+ */
+export interface EventContract<E extends EventMap> {
+  /** 仅用于类型推导，运行时不存在 */
+  readonly __events?: E;
+}
+
+/**
+ * 定义服务器和客户端共用的事件约定
+ * @example
+ * const events = defineEvents<{
+ *   echo: { req: string; res: string };
+ *   getUser: { req: { id: string }; res: { id: string; name: string } };
+ * }>();
+ * const server = new MasSocketServer(events);
+ * const client = new MasSocketClinet(events);
+ */
+export function defineEvents<E extends EventMap>(): EventContract<E> {
+  return {};
+}
@@ -0,0 +1,148 @@
+import { test, expect, describe } from 'bun:test';
+import { ReplyCache } from './idempotency';
+import type { CachedReply } from './idempotency';
+import { useFakeClock } from './test-helpers';
+
+const advance = useFakeClock();
+
+const reply = (code: number, data: any = null): CachedReply => ({
+  body: { code, data, msg: code < 400 ? 'success' : 'error' },
+});
+
+describe('ReplyCache', () => {
+  test('未记录的键返回 undefined', () => {
+    const cache = new ReplyCache();
+    expect(cache.get('a')).toBeUndefined();
+  });
+
+  test('处理中的请求：重复的请求等待原请求完成后得到相同的回复', async () => {
+    const cache = new ReplyCache();
+    const complete = cache.begin('a', 1000, 10);
+    const pending = cache.get('a');
+    expect(pending).toBeInstanceOf(Promise);
+
+    let settled = false;
+    pending!.then(() => (settled = true));
+    await Promise.resolve();
+    expect(settled).toBe(false);
+
+    complete({ ...reply(200, 'ok'), header: { 'x-id': '1' } });
+    expect(await pending).toEqual({
+      body: { code: 200, data: 'ok', msg: 'success' },
+      header: { 'x-id': '1' },
+    });
+    expect(await cache.get('a')).toEqual(await pending!);
+  });
+
+  test('回复在 ttl 后过期', async () => {
+    const cache = new ReplyCache();
+    cache.begin('a', 1000, 10)(reply(200));
+    advance(999);
+    expect(await cache.get('a')).toEqual(reply(200));
+    advance(1);
+    expect(cache.get('a')).toBeUndefined();
+  });
+
+  test('ttl 从请求完成时重新计算', async () => {
+    const cache = new ReplyCache();
+    const complete = cache.begin('a', 1000, 10);
+    advance(800);
+    complete(reply(200));
+    advance(800);
+    expect(await cache.get('a')).toEqual(reply(200));
+    advance(200);
+    expect(cache.get('a')).toBeUndefined();
+  });
+
+  test('处理中的请求同样在 ttl 后过期', () => {
+    const cache = new ReplyCache();
+    cache.begin('a', 1000, 10);
+    advance(1000);
+    expect(cache.get('a')).toBeUndefined();
+  });
+
+  test('原请求在过期前仍未完成时，等待中的重复请求得到 null', async () => {
+    const cache = new ReplyCache();
+    const complete = cache.begin('a', 20, 10);
+    expect(await cache.get('a')).toBeNull();
+    // 之后完成不影响已超时的等待
+    complete(reply(200));
+  });
+
+  test('5xx 回复不缓存，等待中的重复请求仍得到该回复', async () => {
+    const cache = new ReplyCache();
+    const complete = cache.begin('a', 1000, 10);
+    const pending = cache.get('a');
+    complete(reply(503));
+    expect((await pending!)!.body.code).toBe(503);
+    expect(cache.get('a')).toBeUndefined();
+  });
+
+  test('4xx 回复会被缓存', async () => {
+    const cache = new ReplyCache();
+    cache.begin('a', 1000, 10)(reply(404));
+    expect((await cache.get('a'))!.body.code).toBe(404);
+  });
+
+  test('超出 maxEntries 时淘汰最早过期的条目', async () => {
+    const cache = new ReplyCache();
+    cache.begin('a', 1000, 2)(reply(200, 'a'));
+    advance(1);
+    cache.begin('b', 1000, 2)(reply(200, 'b'));
+    advance(1);
+    cache.begin('c', 1000, 2)(reply(200, 'c'));
+
+    expect(cache.get('a')).toBeUndefined();
+    expect((await cache.get('b'))!.body.data).toBe('b');
+    expect((await cache.get('c'))!.body.data).toBe('c');
+  });
+
+  test('先完成的请求先被淘汰', async () => {
+    const cache = new ReplyCache();
+    const completeA = cache.begin('a', 1000, 2);
+    advance(1);
+    const completeB = cache.begin('b', 1000, 2);
+    advance(1);
+    // b 先完成，a 后完成，a 的过期时间更晚
+    completeB(reply(200, 'b'));
+    advance(1);
+    completeA(reply(200, 'a'));
+    cache.begin('c', 1000, 2);
+
+    expect(cache.get('b')).toBeUndefined();
+    expect((await cache.get('a'))!.body.data).toBe('a');
+  });
+
+  test('新请求开始时移除过期的条目', async () => {
+    const cache = new ReplyCache();
+    cache.begin('a', 100, 2)(reply(200, 'a'));
+    cache.begin('b', 1000, 2)(reply(200, 'b'));
+    advance(100);
+    cache.begin('c', 1000, 2)(reply(200, 'c'));
+    cache.begin('d', 1000, 2)(reply(200, 'd'));
+
+    // a 已过期被移除，b 因数量超出被淘汰
+    expect(cache.get('b')).toBeUndefined();
+    expect((await cache.get('c'))!.body.data).toBe('c');
+    expect((await cache.get('d'))!.body.data).toBe('d');
+  });
+
+  test('被淘汰的处理中请求完成后不再写入缓存', async () => {
+    const cache = new ReplyCache();
+    const completeA = cache.begin('a', 1000, 1);
+    const pending = cache.get('a');
+    cache.begin('b', 1000, 1);
+    expect(cache.get('a')).toBeUndefined();
+
+    completeA(reply(200, 'a'));
+    expect((await pending!)!.body.data).toBe('a');
+    expect(cache.get('a')).toBeUndefined();
+  });
+
+  test('clear 清空缓存', () => {
+    const cache = new ReplyCache();
+    cache.begin('a', 1000, 10)(reply(200));
+    cache.clear();
+    expect(cache.get('a')).toBeUndefined();
+  });
+});
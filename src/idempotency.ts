@@ -0,0 +1,111 @@
+import type { Message } from './type';
+
+/**
+ * 携带幂等键的请求头名称
+ */
+export const IDEMPOTENCY_HEADER = 'idempotency-key';
+
+/**
+ * 缓存的回复
+ */
+export interface CachedReply {
+  body: Message;
+  header?: Record<string, string>;
+}
+
+/**
+ * 回复缓存条目
+ */
+interface ReplyCacheEntry {
+  /** 回复，请求仍在处理中时尚未 resolve */
+  reply: Promise<CachedReply>;
+  /** 过期时间戳 */
+  expiresAt: number;
+  /** 请求是否已完成 */
+  completed: boolean;
+}
+
+/**
+ * 幂等请求的回复缓存
+ * 处理中的请求也会被记录，重复的请求等待原请求完成后得到相同的回复（最多等待到条目过期）
+ */
+export class ReplyCache {
+  private entries: Map<string, ReplyCacheEntry> = new Map();
+
+  /**
+   * 查找缓存的回复（包括处理中的请求）
+   * @returns 不存在时返回 undefined；原请求在条目过期前仍未完成时 resolve 为 null
+   */
+  get(key: string): Promise<CachedReply | null> | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    const remaining = entry.expiresAt - Date.now();
+    if (remaining <= 0) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    if (entry.completed) return entry.reply;
+
+    // 原请求可能一直不回复，不能无限期等待
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => resolve(null), remaining);
+      entry.reply.then((reply) => {
+        clearTimeout(timer);
+        resolve(reply);
+      });
+    });
+  }
+
+  /**
+   * 记录开始处理的请求
+   * @param ttl - 缓存时间（毫秒），处理中的请求同样在 ttl 后过期
+   * @param maxEntries - 最多缓存的条目数量
+   * @returns 请求完成时调用，传入最终的回复；5xx 回复不会被缓存，以便重试时重新执行处理器
+   */
+  begin(
+    key: string,
+    ttl: number,
+    maxEntries: number
+  ): (reply: CachedReply) => void {
+    this.prune(maxEntries - 1);
+
+    let resolve!: (reply: CachedReply) => void;
+    const entry: ReplyCacheEntry = {
+      reply: new Promise((r) => (resolve = r)),
+      expiresAt: Date.now() + ttl,
+      completed: false,
+    };
+    this.entries.set(key, entry);
+
+    return (reply) => {
+      entry.completed = true;
+      resolve(reply);
+      if (this.entries.get(key) !== entry) return;
+      // 移到末尾，使条目始终按过期时间排列
+      this.entries.delete(key);
+      if (reply.body.code < 500) {
+        entry.expiresAt = Date.now() + ttl;
+        this.entries.set(key, entry);
+      }
+    };
+  }
+
+  /**
+   * 清空缓存
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+
+  /**
+   * 移除过期的条目，并淘汰最早过期的条目直到不超过 maxEntries
+   * 条目按过期时间排列，遇到第一个未过期且数量未超出的条目即可停止
+   */
+  private prune(maxEntries: number): void {
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt > now && this.entries.size <= maxEntries) break;
+      this.entries.delete(key);
+    }
+  }
+}
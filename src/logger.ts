@@ -0,0 +1,60 @@
+/**
+ * 日志级别，从低到高
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * 结构化日志字段
+ */
+export interface LogFields {
+  /** 客户端 ID */
+  clientId?: string;
+  /** 事件名 */
+  event?: string;
+  /** 请求 ID */
+  fetchId?: string;
+  /** 耗时（毫秒） */
+  duration?: number;
+  /** 错误对象 */
+  err?: unknown;
+  [key: string]: unknown;
+}
+
+/**
+ * 日志记录器
+ * 参数顺序与 pino 一致（字段在前、消息在后），可以直接使用 pino 实例
+ */
+export interface Logger {
+  debug(fields: LogFields, msg: string): void;
+  info(fields: LogFields, msg: string): void;
+  warn(fields: LogFields, msg: string): void;
+  error(fields: LogFields, msg: string): void;
+}
+
+const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+const noop = () => {};
+
+/**
+ * 创建输出到 console 的日志记录器
+ * @param level - 最低输出级别，默认为 'info'
+ */
+export function createConsoleLogger(level: LogLevel = 'info'): Logger {
+  const minIndex = LOG_LEVELS.indexOf(level);
+  const logger = {} as Logger;
+  LOG_LEVELS.forEach((name, index) => {
+    logger[name] =
+      index < minIndex ? noop : (fields, msg) => console[name](msg, fields);
+  });
+  return logger;
+}
+
+/**
+ * 不输出任何日志的日志记录器
+ */
+export const silentLogger: Logger = {
+  debug: noop,
+  info: noop,
+  warn: noop,
+  error: noop,
+};
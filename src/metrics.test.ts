@@ -0,0 +1,140 @@
+import { test, expect, describe } from 'bun:test';
+import { PrometheusMetrics } from './metrics';
+import type { User } from './type';
+
+const user: User = { id: 'a', groups: [], meta: {} };
+
+/**
+ * 取出某个指标的样本行（不含 HELP 和 TYPE）
+ */
+function samples(output: string, name: string): string[] {
+  return output
+    .split('\n')
+    .filter(
+      (line) => line.startsWith(`${name}{`) || line.startsWith(`${name} `)
+    );
+}
+
+describe('PrometheusMetrics.render', () => {
+  test('每个指标输出 HELP 和 TYPE，没有数据的 gauge 为 0，以换行结尾', () => {
+    const output = new PrometheusMetrics().render();
+    expect(output).toContain(
+      '# HELP mas_socket_connections Number of connected clients\n' +
+        '# TYPE mas_socket_connections gauge\n' +
+        'mas_socket_connections 0\n'
+    );
+    expect(output).toContain('# TYPE mas_socket_replies_total counter\n');
+    expect(output).toContain(
+      '# TYPE mas_socket_handler_duration_seconds histogram\n'
+    );
+    // 没有数据的 counter 只有 HELP 和 TYPE
+    expect(samples(output, 'mas_socket_replies_total')).toEqual([]);
+    expect(output.endsWith('\n')).toBe(true);
+  });
+
+  test('按标签累加计数', () => {
+    const metrics = new PrometheusMetrics({ prefix: 'app_' });
+    metrics.connect();
+    metrics.connect();
+    metrics.disconnect(user, 'close');
+    metrics.messageIn({
+      clientId: 'a',
+      type: 'event',
+      event: 'chat',
+      bytes: 10,
+    });
+    metrics.messageIn({
+      clientId: 'a',
+      type: 'event',
+      event: 'chat',
+      bytes: 5,
+    });
+    metrics.messageIn({ clientId: 'a', bytes: 3 });
+    metrics.reply({ clientId: 'a', fetchId: 'f1', code: 200 });
+    metrics.reply({ clientId: 'a', fetchId: 'f2', code: 429 });
+
+    const output = metrics.render();
+    expect(samples(output, 'app_connections')).toEqual(['app_connections 1']);
+    expect(samples(output, 'app_connections_total')).toEqual([
+      'app_connections_total 2',
+    ]);
+    expect(samples(output, 'app_disconnections_total')).toEqual([
+      'app_disconnections_total{type="close"} 1',
+    ]);
+    expect(samples(output, 'app_messages_in_bytes_total')).toEqual([
+      'app_messages_in_bytes_total{type="event",event="chat"} 15',
+      'app_messages_in_bytes_total{type="invalid",event=""} 3',
+    ]);
+    expect(samples(output, 'app_replies_total')).toEqual([
+      'app_replies_total{code="200"} 1',
+      'app_replies_total{code="429"} 1',
+    ]);
+  });
+
+  test('耗时直方图按秒统计，桶为累计计数', () => {
+    const metrics = new PrometheusMetrics({ buckets: [1, 0.1] });
+    metrics.handlerStart();
+    metrics.handlerStart();
+    metrics.handlerEnd({ clientId: 'a', event: 'chat', duration: 50 });
+    metrics.handlerEnd({ clientId: 'a', event: 'chat', duration: 500 });
+
+    const output = metrics.render();
+    expect(samples(output, 'mas_socket_handlers_active')).toEqual([
+      'mas_socket_handlers_active 0',
+    ]);
+    expect(output).toContain(
+      [
+        'mas_socket_handler_duration_seconds_bucket{event="chat",le="0.1"} 1',
+        'mas_socket_handler_duration_seconds_bucket{event="chat",le="1"} 2',
+        'mas_socket_handler_duration_seconds_bucket{event="chat",le="+Inf"} 2',
+        'mas_socket_handler_duration_seconds_sum{event="chat"} 0.55',
+        'mas_socket_handler_duration_seconds_count{event="chat"} 2',
+      ].join('\n')
+    );
+  });
+
+  test('转义标签值中的反斜杠、双引号和换行', () => {
+    const metrics = new PrometheusMetrics();
+    metrics.messageIn({
+      clientId: 'a',
+      type: 'event',
+      event: 'a\\b"c\nd',
+      bytes: 1,
+    });
+    expect(samples(metrics.render(), 'mas_socket_messages_in_total')).toEqual([
+      'mas_socket_messages_in_total{type="event",event="a\\\\b\\"c\\nd"} 1',
+    ]);
+  });
+});
+
+describe('事件名标签的数量限制', () => {
+  test('超出 maxEvents 的新事件名记为 __other__，已出现的事件名不受影响', () => {
+    const metrics = new PrometheusMetrics({ maxEvents: 2 });
+    for (const event of ['a', 'b', 'c', 'd', 'a']) {
+      metrics.messageOut({ clientId: 'x', type: 'event', event, bytes: 1 });
+    }
+    metrics.fetchTimeout({ clientId: 'x', event: 'e', fetchId: 'f1' });
+    metrics.fetchTimeout({ clientId: 'x', event: 'b', fetchId: 'f2' });
+
+    const output = metrics.render();
+    expect(samples(output, 'mas_socket_messages_out_total')).toEqual([
+      'mas_socket_messages_out_total{type="event",event="a"} 2',
+      'mas_socket_messages_out_total{type="event",event="b"} 1',
+      'mas_socket_messages_out_total{type="event",event="__other__"} 2',
+    ]);
+    expect(samples(output, 'mas_socket_fetch_timeouts_total')).toEqual([
+      'mas_socket_fetch_timeouts_total{event="__other__"} 1',
+      'mas_socket_fetch_timeouts_total{event="b"} 1',
+    ]);
+  });
+
+  test('没有事件名的消息不占用数量', () => {
+    const metrics = new PrometheusMetrics({ maxEvents: 1 });
+    metrics.messageOut({ clientId: 'x', type: 'reply', bytes: 1 });
+    metrics.messageOut({ clientId: 'x', type: 'event', event: 'a', bytes: 1 });
+    expect(samples(metrics.render(), 'mas_socket_messages_out_total')).toEqual([
+      'mas_socket_messages_out_total{type="reply",event=""} 1',
+      'mas_socket_messages_out_total{type="event",event="a"} 1',
+    ]);
+  });
+});
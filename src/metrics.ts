@@ -0,0 +1,296 @@
+import type { Express, Request, Response } from 'express';
+import type { DisconnectInfo, InternalMessage, User } from './type';
+
+/**
+ * 收发的消息
+ */
+export interface MessageMetric {
+  clientId: string;
+  /** 消息类型，消息过大或解析失败时不存在 */
+  type?: InternalMessage['type'];
+  /** 事件名（事件消息） */
+  event?: string;
+  /** 编码后的字节数 */
+  bytes: number;
+}
+
+/**
+ * 开始处理的事件
+ */
+export interface HandlerMetric {
+  clientId: string;
+  event: string;
+}
+
+/**
+ * 处理完成的事件
+ */
+export interface HandlerEndMetric extends HandlerMetric {
+  /** 中间件和处理器的总耗时（毫秒） */
+  duration: number;
+  /** 回复的状态码，不需要回复的事件不存在 */
+  code?: number;
+}
+
+/**
+ * 发往客户端的回复
+ */
+export interface ReplyMetric {
+  clientId: string;
+  fetchId: string;
+  code: number;
+}
+
+/**
+ * 超时的请求（服务器发往客户端的 fetch）
+ */
+export interface FetchTimeoutMetric {
+  clientId: string;
+  event?: string;
+  fetchId: string;
+}
+
+/**
+ * 指标收集接口
+ * MasSocketServer 在以下时机调用对应的方法，所有方法都是可选的
+ */
+export interface MasSocketMetrics {
+  /** 客户端连接（恢复会话不会调用） */
+  connect?(user: User): void;
+  /** 客户端断开（启用会话恢复时在宽限期结束后调用） */
+  disconnect?(user: User, type: string, info: DisconnectInfo): void;
+  /** 收到消息 */
+  messageIn?(metric: MessageMetric): void;
+  /** 发送消息（包括广播） */
+  messageOut?(metric: MessageMetric): void;
+  /** 开始执行事件的中间件和处理器 */
+  handlerStart?(metric: HandlerMetric): void;
+  /** 事件的中间件和处理器执行完成 */
+  handlerEnd?(metric: HandlerEndMetric): void;
+  /** 发送回复（包括处理器之外的 4xx / 5xx 回复，如限流、消息格式错误） */
+  reply?(metric: ReplyMetric): void;
+  /** 发往客户端的请求超时 */
+  fetchTimeout?(metric: FetchTimeoutMetric): void;
+}
+
+/**
+ * Prometheus 指标配置
+ */
+export interface PrometheusMetricsOptions {
+  /** 指标名前缀，默认为 'mas_socket_' */
+  prefix?: string;
+  /** 事件处理耗时直方图的桶（秒） */
+  buckets?: number[];
+  /**
+   * 作为标签的不同事件名的最大数量，默认为 100
+   * 事件名由客户端发送，超出后的事件名统一记为 '__other__'，避免标签数量无限增长
+   */
+  maxEvents?: number;
+}
+
+/**
+ * 标签值 -> 指标值
+ */
+type Series = Map<string, number>;
+
+/**
+ * 转义标签值
+ */
+function escapeLabel(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n');
+}
+
+/**
+ * 将标签编码为 Prometheus 文本格式，如 {type="event",event="chat"}
+ */
+function formatLabels(labels: Record<string, string>): string {
+  const pairs = Object.entries(labels).map(
+    ([key, value]) => `${key}="${escapeLabel(value)}"`
+  );
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+/**
+ * 内置的 Prometheus 指标收集器
+ * 以 Prometheus 文本格式导出，可以挂载到 bind() 使用的 Express 应用上
+ * @example
+ * const metrics = new PrometheusMetrics();
+ * masSocket.metrics = metrics;
+ * metrics.mount(app); // GET /metrics
+ */
+export class PrometheusMetrics implements MasSocketMetrics {
+  private prefix: string;
+  private buckets: number[];
+  private maxEvents: number;
+  /** 已作为标签出现的事件名 */
+  private events: Set<string> = new Set();
+
+  /** 指标名 -> 帮助文本和类型 */
+  private meta: Map<string, { help: string; type: string }> = new Map();
+  /** 指标名 -> 序列化的标签 -> 值 */
+  private series: Map<string, Series> = new Map();
+  /** 事件名 -> 耗时直方图（各个桶的计数、总和、总数） */
+  private durations: Map<
+    string,
+    { counts: number[]; sum: number; count: number }
+  > = new Map();
+
+  constructor(options: PrometheusMetricsOptions = {}) {
+    this.prefix = options.prefix ?? 'mas_socket_';
+    this.buckets = [
+      ...(options.buckets ?? [0.005, 0.01, 0.05, 0.1, 0.5, 1, 5]),
+    ].sort((a, b) => a - b);
+    this.maxEvents = options.maxEvents ?? 100;
+
+    this.define('connections', 'gauge', 'Number of connected clients');
+    this.define('connections_total', 'counter', 'Total client connections');
+    this.define(
+      'disconnections_total',
+      'counter',
+      'Total client disconnections by type'
+    );
+    this.define('messages_in_total', 'counter', 'Total messages received');
+    this.define('messages_in_bytes_total', 'counter', 'Total bytes received');
+    this.define('messages_out_total', 'counter', 'Total messages sent');
+    this.define('messages_out_bytes_total', 'counter', 'Total bytes sent');
+    this.define('handlers_active', 'gauge', 'Number of events being handled');
+    this.define(
+      'handler_duration_seconds',
+      'histogram',
+      'Event handling duration in seconds'
+    );
+    this.define('replies_total', 'counter', 'Total replies by status code');
+    this.define(
+      'fetch_timeouts_total',
+      'counter',
+      'Total timed out fetches to clients'
+    );
+  }
+
+  connect(): void {
+    this.add('connections', {}, 1);
+    this.add('connections_total', {}, 1);
+  }
+
+  disconnect(_user: User, type: string): void {
+    this.add('connections', {}, -1);
+    this.add('disconnections_total', { type }, 1);
+  }
+
+  messageIn({ type, event, bytes }: MessageMetric): void {
+    const labels = { type: type ?? 'invalid', event: this.eventLabel(event) };
+    this.add('messages_in_total', labels, 1);
+    this.add('messages_in_bytes_total', labels, bytes);
+  }
+
+  messageOut({ type, event, bytes }: MessageMetric): void {
+    const labels = { type: type ?? '', event: this.eventLabel(event) };
+    this.add('messages_out_total', labels, 1);
+    this.add('messages_out_bytes_total', labels, bytes);
+  }
+
+  handlerStart(): void {
+    this.add('handlers_active', {}, 1);
+  }
+
+  handlerEnd({ event, duration }: HandlerEndMetric): void {
+    this.add('handlers_active', {}, -1);
+
+    const label = this.eventLabel(event);
+    let histogram = this.durations.get(label);
+    if (!histogram) {
+      histogram = { counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.durations.set(label, histogram);
+    }
+    const seconds = duration / 1000;
+    this.buckets.forEach((bound, index) => {
+      if (seconds <= bound) histogram.counts[index]!++;
+    });
+    histogram.sum += seconds;
+    histogram.count++;
+  }
+
+  reply({ code }: ReplyMetric): void {
+    this.add('replies_total', { code: String(code) }, 1);
+  }
+
+  fetchTimeout({ event }: FetchTimeoutMetric): void {
+    this.add('fetch_timeouts_total', { event: this.eventLabel(event) }, 1);
+  }
+
+  /**
+   * 以 Prometheus 文本格式导出所有指标
+   */
+  render(): string {
+    const lines: string[] = [];
+    for (const [name, { help, type }] of this.meta) {
+      const fullName = this.prefix + name;
+      lines.push(`# HELP ${fullName} ${help}`, `# TYPE ${fullName} ${type}`);
+
+      if (type === 'histogram') {
+        for (const [event, { counts, sum, count }] of this.durations) {
+          this.buckets.forEach((bound, index) => {
+            const labels = formatLabels({ event, le: String(bound) });
+            lines.push(`${fullName}_bucket${labels} ${counts[index]}`);
+          });
+          lines.push(
+            `${fullName}_bucket${formatLabels({ event, le: '+Inf' })} ${count}`,
+            `${fullName}_sum${formatLabels({ event })} ${sum}`,
+            `${fullName}_count${formatLabels({ event })} ${count}`
+          );
+        }
+        continue;
+      }
+
+      const series = this.series.get(name)!;
+      if (series.size === 0 && type === 'gauge') {
+        lines.push(`${fullName} 0`);
+      }
+      for (const [labels, value] of series) {
+        lines.push(`${fullName}${labels} ${value}`);
+      }
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * 在 Express 应用上注册导出指标的 GET 路由
+   * @param app - Express 应用（通常与传给 bind() 的相同）
+   * @param path - 路由路径，默认为 '/metrics'
+   */
+  mount(app: Express, path: string = '/metrics'): void {
+    app.get(path, (_req: Request, res: Response) => {
+      res.set('Content-Type', 'text/plain; version=0.0.4; charset=utf-8');
+      res.send(this.render());
+    });
+  }
+
+  private define(name: string, type: string, help: string): void {
+    this.meta.set(name, { help, type });
+    this.series.set(name, new Map());
+  }
+
+  private add(
+    name: string,
+    labels: Record<string, string>,
+    value: number
+  ): void {
+    const series = this.series.get(name)!;
+    const key = formatLabels(labels);
+    series.set(key, (series.get(key) ?? 0) + value);
+  }
+
+  /**
+   * 将事件名转换为标签值，不同事件名的数量超出 maxEvents 时记为 '__other__'
+   */
+  private eventLabel(event: string | undefined): string {
+    if (!event) return '';
+    if (this.events.has(event)) return event;
+    if (this.events.size >= this.maxEvents) return '__other__';
+    this.events.add(event);
+    return event;
+  }
+}
@@ -0,0 +1,116 @@
+import { test, expect, describe } from 'bun:test';
+import { runMiddlewares, runUntilReplied } from './middleware';
+
+const sleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+describe('runMiddlewares', () => {
+  test('按洋葱模型执行，await next() 之后可以检查下游的结果', async () => {
+    const order: string[] = [];
+    await runMiddlewares(
+      [
+        async (_ctx, next) => {
+          order.push('a:before');
+          await next();
+          order.push('a:after');
+        },
+        async (_ctx, next) => {
+          order.push('b:before');
+          await next();
+          order.push('b:after');
+        },
+      ],
+      {},
+      async () => {
+        order.push('handler');
+      },
+      () => false
+    );
+    expect(order).toEqual([
+      'a:before',
+      'b:before',
+      'handler',
+      'b:after',
+      'a:after',
+    ]);
+  });
+
+  test('未调用 next 时：未回复则自动继续，已回复则停止', async () => {
+    let handled = 0;
+    const handler = async () => {
+      handled++;
+    };
+    await runMiddlewares([() => {}], {}, handler, () => false);
+    await runMiddlewares([() => {}], {}, handler, () => true);
+    expect(handled).toBe(1);
+  });
+
+  test('多次调用 next 时抛出错误', async () => {
+    const run = runMiddlewares(
+      [
+        async (_ctx, next) => {
+          await next();
+          await next();
+        },
+      ],
+      {},
+      async () => {},
+      () => false
+    );
+    await expect(run).rejects.toThrow('next() called multiple times');
+  });
+});
+
+describe('runUntilReplied', () => {
+  test('处理器回复后立即返回，不等待处理器执行完', async () => {
+    let notify!: () => void;
+    const replied = new Promise<void>((resolve) => (notify = resolve));
+    const detached: Promise<void>[] = [];
+    let finished = false;
+
+    await runUntilReplied(
+      async () => {
+        notify();
+        await sleep(20);
+        finished = true;
+      },
+      replied,
+      detached
+    );
+    expect(finished).toBe(false);
+    expect(detached).toHaveLength(1);
+
+    await Promise.all(detached);
+    expect(finished).toBe(true);
+  });
+
+  test('未回复时等待处理器执行完，错误正常抛出', async () => {
+    const replied = new Promise<void>(() => {});
+    const detached: Promise<void>[] = [];
+    await runUntilReplied(() => sleep(5), replied, detached);
+    expect(detached).toHaveLength(0);
+
+    await expect(
+      runUntilReplied(
+        async () => {
+          throw new Error('failed');
+        },
+        replied,
+        detached
+      )
+    ).rejects.toThrow('failed');
+  });
+
+  test('回复之后抛出的错误不影响调用方', async () => {
+    const detached: Promise<void>[] = [];
+    await runUntilReplied(
+      async () => {
+        await sleep(5);
+        throw new Error('late');
+      },
+      Promise.resolve(),
+      detached
+    );
+    await expect(Promise.all(detached)).resolves.toBeDefined();
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * 中间件的 next 函数，执行下游的中间件和事件处理器
+ */
+export type Next = () => Promise<void>;
+
+/**
+ * 按洋葱模型执行中间件，handler 位于最内层
+ * - 中间件可以 await next() 等待下游执行完成，之后检查或修改回复
+ * - 下游抛出的错误会从 next() 抛出，中间件可以捕获
+ * - 中间件未调用 next 且 isReplied() 为 false 时，自动继续执行下游（兼容不调用 next 的写法）
+ * @param middlewares - 按注册顺序排列的中间件
+ * @param ctx - 传给中间件的上下文
+ * @param handler - 最内层的处理函数
+ * @param isReplied - 是否已作出回复，已回复时不再自动继续执行下游
+ */
+export async function runMiddlewares<C>(
+  middlewares: ((ctx: C, next: Next) => Promise<void> | void)[],
+  ctx: C,
+  handler: () => Promise<void>,
+  isReplied: () => boolean
+): Promise<void> {
+  const dispatch = async (index: number): Promise<void> => {
+    if (index === middlewares.length) {
+      return handler();
+    }
+
+    let called = false;
+    const next: Next = () => {
+      if (called) {
+        return Promise.reject(new Error('next() called multiple times'));
+      }
+      called = true;
+      return dispatch(index + 1);
+    };
+
+    await middlewares[index]!(ctx, next);
+    if (!called && !isReplied()) {
+      await dispatch(index + 1);
+    }
+  };
+
+  return dispatch(0);
+}
+
+/**
+ * 执行事件处理器，处理器作出回复后不再等待它执行完
+ * 使回复只等待中间件在 await next() 之后的处理，不被处理器回复之后的工作（如写日志、通知其他客户端）延迟
+ * @param run - 执行处理器，错误需自行记录后抛出
+ * @param replied - 作出回复时 resolve
+ * @param detached - 收集回复后仍在执行的处理器，调用方在事件处理结束前等待它们完成
+ */
+export async function runUntilReplied(
+  run: () => Promise<void>,
+  replied: Promise<void>,
+  detached: Promise<void>[]
+): Promise<void> {
+  const running = run();
+  const finished = await Promise.race([
+    running.then(() => true),
+    replied.then(() => false),
+  ]);
+  if (!finished) {
+    detached.push(running.catch(() => {}));
+  }
+}
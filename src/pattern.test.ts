@@ -0,0 +1,97 @@
+import { test, expect, describe } from 'bun:test';
+import { compileRoute, isRoutePattern, joinRoute, matchRoute } from './pattern';
+
+const match = (pattern: string, event: string) =>
+  matchRoute(compileRoute(pattern), event);
+
+describe('isRoutePattern', () => {
+  test('包含通配符或位于段开头的参数时为模式', () => {
+    expect(isRoutePattern('user:*')).toBe(true);
+    expect(isRoutePattern('*')).toBe(true);
+    expect(isRoutePattern(':id')).toBe(true);
+    expect(isRoutePattern('room/:roomId/message')).toBe(true);
+  });
+
+  test('普通事件名和不在段开头的冒号不是模式', () => {
+    expect(isRoutePattern('chat')).toBe(false);
+    expect(isRoutePattern('chat:send')).toBe(false);
+    expect(isRoutePattern('a/b:c')).toBe(false);
+    // 冒号后不是合法的参数名
+    expect(isRoutePattern('room/:1')).toBe(false);
+    expect(isRoutePattern('room/:')).toBe(false);
+  });
+});
+
+describe('compileRoute / matchRoute', () => {
+  test('* 匹配任意字符，包括空字符串和 /', () => {
+    expect(match('user:*', 'user:login')).toEqual({});
+    expect(match('user:*', 'user:')).toEqual({});
+    expect(match('user:*', 'user:a/b')).toEqual({});
+    expect(match('user:*', 'admin:login')).toBeNull();
+    expect(match('*:done', 'job:done')).toEqual({});
+    expect(match('a*b*c', 'a-b-c')).toEqual({});
+  });
+
+  test('参数匹配到下一个 / 为止，且不能为空', () => {
+    expect(match('room/:roomId/message', 'room/42/message')).toEqual({
+      roomId: '42',
+    });
+    expect(match('room/:roomId/message', 'room/4/2/message')).toBeNull();
+    expect(match('room/:roomId/message', 'room//message')).toBeNull();
+    expect(match(':type/:id', 'user/1')).toEqual({ type: 'user', id: '1' });
+  });
+
+  test('参数名只包含字母、数字和下划线，之后的字符按字面匹配', () => {
+    expect(match('file/:name.json', 'file/a.b.json')).toEqual({
+      name: 'a.b',
+    });
+    expect(match('file/:name.json', 'file/a.txt')).toBeNull();
+    expect(match('user/:user_id2-x', 'user/1-x')).toEqual({ user_id2: '1' });
+  });
+
+  test('参数和通配符可以组合', () => {
+    expect(match('room/:roomId/*', 'room/7/a/b')).toEqual({ roomId: '7' });
+    expect(match('room/:roomId/*', 'room/7')).toBeNull();
+  });
+
+  test('不在段开头的 :name 按字面匹配', () => {
+    expect(match('chat:send/*', 'chat:send/x')).toEqual({});
+    expect(match('chat:send/*', 'chat:other/x')).toBeNull();
+  });
+
+  test('正则特殊字符按字面匹配', () => {
+    expect(match('a.b+(c)?*', 'a.b+(c)?x')).toEqual({});
+    expect(match('a.b+(c)?*', 'aXb+(c)?x')).toBeNull();
+    expect(match('[x]|$', '[x]|$')).toEqual({});
+  });
+
+  test('整体匹配，不匹配子串', () => {
+    expect(match('user:*', 'x-user:login')).toBeNull();
+    expect(match('room/:id', 'room/1/extra')).toBeNull();
+  });
+
+  test('keys 按出现顺序记录参数名', () => {
+    expect(compileRoute(':a/x/:b/*').keys).toEqual(['a', 'b']);
+    expect(compileRoute('plain').keys).toEqual([]);
+  });
+});
+
+describe('joinRoute', () => {
+  test('以 : 连接前缀和事件名', () => {
+    expect(joinRoute('chat', 'send')).toBe('chat:send');
+    expect(joinRoute('chat', '*')).toBe('chat:*');
+  });
+
+  test('前缀以 : 或 / 结尾时直接拼接', () => {
+    expect(joinRoute('chat:', 'send')).toBe('chat:send');
+    expect(joinRoute('room/:roomId/', 'message')).toBe('room/:roomId/message');
+  });
+
+  test('前缀为空时返回事件名', () => {
+    expect(joinRoute('', 'send')).toBe('send');
+  });
+
+  test('嵌套挂载时逐级拼接', () => {
+    expect(joinRoute('api', joinRoute('chat', 'send'))).toBe('api:chat:send');
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * 事件名模式
+ * - '*' 匹配任意字符（包括空字符串），如 'user:*'
+ * - 位于开头或 '/' 之后的 ':name' 为参数，匹配到下一个 '/' 为止，如 'room/:roomId/message'
+ */
+export type RoutePattern =
+  `${string}*${string}` | `:${string}` | `${string}/:${string}`;
+
+/**
+ * 编译后的事件名模式
+ */
+export interface CompiledRoute {
+  regex: RegExp;
+  /** 参数名，按出现顺序对应正则的捕获组 */
+  keys: string[];
+}
+
+/**
+ * 模式中的参数和通配符
+ */
+const PATTERN_TOKEN = /(^|\/):([A-Za-z_][A-Za-z0-9_]*)|\*/;
+
+/**
+ * 转义正则表达式特殊字符
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * 判断事件名是否为模式（包含通配符或参数）
+ */
+export function isRoutePattern(event: string): boolean {
+  return PATTERN_TOKEN.test(event);
+}
+
+/**
+ * 编译事件名模式
+ * @param pattern - 事件名模式，如 'admin:*'、'room/:roomId/message'
+ */
+export function compileRoute(pattern: string): CompiledRoute {
+  const keys: string[] = [];
+  let source = '';
+  let lastIndex = 0;
+
+  for (const match of pattern.matchAll(new RegExp(PATTERN_TOKEN.source, 'g'))) {
+    source += escapeRegExp(pattern.slice(lastIndex, match.index));
+    if (match[0] === '*') {
+      source += '.*';
+    } else {
+      keys.push(match[2]!);
+      source += `${escapeRegExp(match[1]!)}([^/]+)`;
+    }
+    lastIndex = match.index! + match[0].length;
+  }
+  source += escapeRegExp(pattern.slice(lastIndex));
+
+  return { regex: new RegExp(`^${source}$`), keys };
+}
+
+/**
+ * 用编译后的模式匹配事件名
+ * @returns 匹配时返回参数（参数名 -> 值），不匹配时返回 null
+ */
+export function matchRoute(
+  route: CompiledRoute,
+  event: string
+): Record<string, string> | null {
+  const match = route.regex.exec(event);
+  if (!match) return null;
+
+  const params: Record<string, string> = {};
+  route.keys.forEach((key, index) => {
+    params[key] = match[index + 1]!;
+  });
+  return params;
+}
+
+/**
+ * 拼接路由前缀和事件名
+ * 前缀以 ':' 或 '/' 结尾时直接拼接，否则以 ':' 连接，如 'chat' + 'send' -> 'chat:send'
+ */
+export function joinRoute(prefix: string, event: string): string {
+  if (!prefix) return event;
+  return /[:/]$/.test(prefix) ? prefix + event : `${prefix}:${event}`;
+}
@@ -0,0 +1,142 @@
+import { test, expect, describe } from 'bun:test';
+import { RateLimiter } from './ratelimit';
+import type { RateLimitConfig } from './type';
+import { useFakeClock } from './test-helpers';
+
+const advance = useFakeClock();
+
+const config = (rules: Partial<RateLimitConfig>): RateLimitConfig => ({
+  maxViolations: 20,
+  violationWindow: 10000,
+  ...rules,
+});
+
+describe('RateLimiter.consume', () => {
+  test('没有适用的规则时总是放行', () => {
+    const limiter = new RateLimiter();
+    for (let i = 0; i < 100; i++) {
+      expect(limiter.consume(config({}), 'chat', [])).toBe(0);
+    }
+  });
+
+  test('桶满时允许突发 capacity 个请求，之后返回重试等待时间', () => {
+    const limiter = new RateLimiter();
+    const rules = config({ global: { capacity: 3, refillPerSecond: 2 } });
+    expect(limiter.consume(rules, 'chat', [])).toBe(0);
+    expect(limiter.consume(rules, 'chat', [])).toBe(0);
+    expect(limiter.consume(rules, 'chat', [])).toBe(0);
+    // 每秒补充 2 个，补充一个令牌需要 500ms
+    expect(limiter.consume(rules, 'chat', [])).toBe(500);
+
+    advance(200);
+    expect(limiter.consume(rules, 'chat', [])).toBe(300);
+    advance(300);
+    expect(limiter.consume(rules, 'chat', [])).toBe(0);
+    expect(limiter.consume(rules, 'chat', [])).toBe(500);
+  });
+
+  test('补充的令牌不超过桶容量', () => {
+    const limiter = new RateLimiter();
+    const rules = config({ global: { capacity: 2, refillPerSecond: 10 } });
+    limiter.consume(rules, 'chat', []);
+    advance(60000);
+    expect(limiter.consume(rules, 'chat', [])).toBe(0);
+    expect(limiter.consume(rules, 'chat', [])).toBe(0);
+    expect(limiter.consume(rules, 'chat', [])).toBe(100);
+  });
+
+  test('不补充令牌的规则在用完后无限期拒绝', () => {
+    const limiter = new RateLimiter();
+    const rules = config({ global: { capacity: 1, refillPerSecond: 0 } });
+    expect(limiter.consume(rules, 'chat', [])).toBe(0);
+    advance(60000);
+    expect(limiter.consume(rules, 'chat', [])).toBe(Infinity);
+  });
+
+  test('事件规则按事件名和模式匹配，各自独立计数', () => {
+    const limiter = new RateLimiter();
+    const rules = config({
+      events: {
+        'chat:*': { capacity: 1, refillPerSecond: 1 },
+        upload: { capacity: 1, refillPerSecond: 1 },
+      },
+    });
+    expect(limiter.consume(rules, 'chat:send', [])).toBe(0);
+    // 同一模式匹配的事件共用一个桶
+    expect(limiter.consume(rules, 'chat:edit', [])).toBe(1000);
+    expect(limiter.consume(rules, 'upload', [])).toBe(0);
+    expect(limiter.consume(rules, 'upload', [])).toBe(1000);
+    expect(limiter.consume(rules, 'other', [])).toBe(0);
+    expect(limiter.consume(rules, 'chat', [])).toBe(0);
+  });
+
+  test('组规则只对组内的客户端生效', () => {
+    const limiter = new RateLimiter();
+    const rules = config({
+      groups: { guest: { capacity: 1, refillPerSecond: 1 } },
+    });
+    expect(limiter.consume(rules, 'chat', ['admin'])).toBe(0);
+    expect(limiter.consume(rules, 'chat', ['admin'])).toBe(0);
+    expect(limiter.consume(rules, 'chat', ['guest'])).toBe(0);
+    expect(limiter.consume(rules, 'chat', ['admin', 'guest'])).toBe(1000);
+  });
+
+  test('需要所有适用规则都有令牌，被拒绝时不消耗其他桶的令牌', () => {
+    const limiter = new RateLimiter();
+    const rules = config({
+      global: { capacity: 2, refillPerSecond: 1 },
+      events: { chat: { capacity: 1, refillPerSecond: 0.5 } },
+    });
+    expect(limiter.consume(rules, 'chat', [])).toBe(0);
+    // chat 桶为空，global 桶的令牌不被消耗
+    expect(limiter.consume(rules, 'chat', [])).toBe(2000);
+    expect(limiter.consume(rules, 'chat', [])).toBe(2000);
+    expect(limiter.consume(rules, 'ping', [])).toBe(0);
+    // 两个桶都为空时返回最长的等待时间
+    expect(limiter.consume(rules, 'chat', [])).toBe(2000);
+    advance(1000);
+    expect(limiter.consume(rules, 'ping', [])).toBe(0);
+    expect(limiter.consume(rules, 'chat', [])).toBe(1000);
+  });
+
+  test('规则被替换时重新创建令牌桶', () => {
+    const limiter = new RateLimiter();
+    const rules = config({ global: { capacity: 1, refillPerSecond: 1 } });
+    expect(limiter.consume(rules, 'chat', [])).toBe(0);
+    expect(limiter.consume(rules, 'chat', [])).toBe(1000);
+    rules.global = { capacity: 5, refillPerSecond: 1 };
+    expect(limiter.consume(rules, 'chat', [])).toBe(0);
+  });
+
+  test('不同客户端的限流状态互不影响', () => {
+    const rules = config({ global: { capacity: 1, refillPerSecond: 1 } });
+    const a = new RateLimiter();
+    const b = new RateLimiter();
+    expect(a.consume(rules, 'chat', [])).toBe(0);
+    expect(a.consume(rules, 'chat', [])).toBe(1000);
+    expect(b.consume(rules, 'chat', [])).toBe(0);
+  });
+});
+
+describe('RateLimiter.recordViolation', () => {
+  test('统计窗口内累计被限流次数', () => {
+    const limiter = new RateLimiter();
+    expect(limiter.recordViolation(1000)).toBe(1);
+    advance(500);
+    expect(limiter.recordViolation(1000)).toBe(2);
+    advance(499);
+    expect(limiter.recordViolation(1000)).toBe(3);
+  });
+
+  test('超出统计窗口后重新计数', () => {
+    const limiter = new RateLimiter();
+    limiter.recordViolation(1000);
+    limiter.recordViolation(1000);
+    advance(1000);
+    expect(limiter.recordViolation(1000)).toBe(1);
+    advance(600);
+    expect(limiter.recordViolation(1000)).toBe(2);
+    advance(600);
+    expect(limiter.recordViolation(1000)).toBe(1);
+  });
+});
@@ -0,0 +1,131 @@
+import type { RateLimitConfig, RateLimitRule } from './type';
+import { compileRoute, isRoutePattern } from './pattern';
+
+/**
+ * 令牌桶
+ * 桶满时可以突发 capacity 个请求，之后按 refillPerSecond 的速度补充令牌
+ */
+class TokenBucket {
+  private tokens: number;
+  private updatedAt: number = Date.now();
+
+  constructor(readonly rule: RateLimitRule) {
+    this.tokens = rule.capacity;
+  }
+
+  /**
+   * 按经过的时间补充令牌
+   * @returns 取出一个令牌需要等待的时间（毫秒），有令牌时为 0
+   */
+  refill(now: number): number {
+    const { capacity, refillPerSecond } = this.rule;
+    this.tokens = Math.min(
+      capacity,
+      this.tokens + ((now - this.updatedAt) / 1000) * refillPerSecond
+    );
+    this.updatedAt = now;
+    if (this.tokens >= 1) return 0;
+    return refillPerSecond > 0
+      ? Math.ceil(((1 - this.tokens) / refillPerSecond) * 1000)
+      : Infinity;
+  }
+
+  /**
+   * 取出一个令牌（调用前需先通过 refill 确认有令牌）
+   */
+  take(): void {
+    this.tokens -= 1;
+  }
+}
+
+/**
+ * 编译后的事件名模式缓存：模式 -> 正则
+ */
+const eventPatterns: Map<string, RegExp> = new Map();
+
+/**
+ * 判断事件名是否匹配限流配置中的事件名或模式
+ */
+function matchEvent(pattern: string, event: string): boolean {
+  if (pattern === event) return true;
+  if (!isRoutePattern(pattern)) return false;
+  let regex = eventPatterns.get(pattern);
+  if (!regex) {
+    regex = compileRoute(pattern).regex;
+    eventPatterns.set(pattern, regex);
+  }
+  return regex.test(event);
+}
+
+/**
+ * 单个客户端的限流状态
+ * 每个客户端的每条规则各有一个令牌桶，请求需要所有适用的桶都有令牌才会放行
+ */
+export class RateLimiter {
+  private buckets: Map<string, TokenBucket> = new Map();
+  /** 当前统计窗口内被限流的次数 */
+  private violations: number = 0;
+  /** 当前统计窗口的开始时间 */
+  private windowStart: number = 0;
+
+  /**
+   * 为一次事件请求消耗令牌
+   * @param config - 限流配置
+   * @param event - 事件名
+   * @param groups - 客户端所在的组
+   * @returns 放行时为 0，被限流时为建议的重试等待时间（毫秒）
+   */
+  consume(config: RateLimitConfig, event: string, groups: string[]): number {
+    const rules: [string, RateLimitRule][] = [];
+    if (config.global) {
+      rules.push(['global', config.global]);
+    }
+    for (const [pattern, rule] of Object.entries(config.events ?? {})) {
+      if (matchEvent(pattern, event)) {
+        rules.push([`event:${pattern}`, rule]);
+      }
+    }
+    for (const group of groups) {
+      const rule = config.groups?.[group];
+      if (rule) {
+        rules.push([`group:${group}`, rule]);
+      }
+    }
+
+    const now = Date.now();
+    const buckets = rules.map(([key, rule]) => {
+      let bucket = this.buckets.get(key);
+      // 规则被替换时重新创建令牌桶
+      if (!bucket || bucket.rule !== rule) {
+        bucket = new TokenBucket(rule);
+        this.buckets.set(key, bucket);
+      }
+      return bucket;
+    });
+
+    // 任意一个桶没有令牌时整体拒绝，且不消耗其他桶的令牌
+    const retryAfter = Math.max(
+      0,
+      ...buckets.map((bucket) => bucket.refill(now))
+    );
+    if (retryAfter > 0) return retryAfter;
+    for (const bucket of buckets) {
+      bucket.take();
+    }
+    return 0;
+  }
+
+  /**
+   * 记录一次被限流
+   * @param window - 统计窗口（毫秒）
+   * @returns 当前统计窗口内被限流的次数
+   */
+  recordViolation(window: number): number {
+    const now = Date.now();
+    if (now - this.windowStart >= window) {
+      this.windowStart = now;
+      this.violations = 0;
+    }
+    return ++this.violations;
+  }
+}
@@ -0,0 +1,28 @@
+import { test, expect, describe } from 'bun:test';
+import { getResumeProtocol, parseResumeProtocol } from './resume';
+
+describe('会话恢复子协议', () => {
+  test('往返编解码客户端 ID 和恢复令牌', () => {
+    for (const id of ['user-1', '用户/1 a', 'a+b=c?d', '😀']) {
+      const protocol = getResumeProtocol(id, 'token-1');
+      // 子协议只允许 token 字符
+      expect(protocol).toMatch(/^[A-Za-z0-9._-]+$/);
+      expect(parseResumeProtocol(protocol)).toEqual({ id, token: 'token-1' });
+    }
+  });
+
+  test('从 Sec-WebSocket-Protocol 请求头中找出会话恢复信息', () => {
+    const header = `mas-socket.msgpack, mas-socket.json, ${getResumeProtocol('a', 'b')}`;
+    expect(parseResumeProtocol(header)).toEqual({ id: 'a', token: 'b' });
+  });
+
+  test('没有会话恢复信息或格式错误时返回 null', () => {
+    expect(parseResumeProtocol(undefined)).toBeNull();
+    expect(parseResumeProtocol('mas-socket.json')).toBeNull();
+    expect(parseResumeProtocol('mas-socket.resume.')).toBeNull();
+    expect(parseResumeProtocol('mas-socket.resume.YQ')).toBeNull();
+    expect(parseResumeProtocol('mas-socket.resume.YQ.b.c')).toBeNull();
+    // 不是有效的 UTF-8
+    expect(parseResumeProtocol('mas-socket.resume.gA.b')).toBeNull();
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * 会话恢复子协议前缀
+ * 恢复令牌是凭证，通过子协议（Sec-WebSocket-Protocol 请求头）发送，避免出现在 URL 中被代理和访问日志记录
+ */
+const RESUME_PROTOCOL_PREFIX = 'mas-socket.resume.';
+
+/**
+ * 会话恢复信息
+ */
+export interface ResumeCredentials {
+  /** 要恢复的客户端 ID */
+  id: string;
+  /** 恢复令牌 */
+  token: string;
+}
+
+/**
+ * 将客户端 ID 编码为 base64url，使其可以作为子协议的一部分（子协议只允许 token 字符）
+ */
+function encodeId(id: string): string {
+  let binary = '';
+  for (const byte of new TextEncoder().encode(id)) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary)
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+function decodeId(value: string): string | null {
+  try {
+    const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+    return new TextDecoder('utf-8', { fatal: true }).decode(
+      Uint8Array.from(binary, (char) => char.charCodeAt(0))
+    );
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 获取携带会话恢复信息的子协议
+ */
+export function getResumeProtocol(id: string, token: string): string {
+  return `${RESUME_PROTOCOL_PREFIX}${encodeId(id)}.${token}`;
+}
+
+/**
+ * 从客户端请求的子协议中解析会话恢复信息
+ * @param header - Sec-WebSocket-Protocol 请求头
+ * @returns 不存在或格式错误时返回 null
+ */
+export function parseResumeProtocol(
+  header: string | undefined
+): ResumeCredentials | null {
+  for (const protocol of (header ?? '').split(',')) {
+    const value = protocol.trim();
+    if (!value.startsWith(RESUME_PROTOCOL_PREFIX)) continue;
+
+    const [encodedId, token, ...rest] = value
+      .slice(RESUME_PROTOCOL_PREFIX.length)
+      .split('.');
+    if (!encodedId || !token || rest.length > 0) return null;
+    const id = decodeId(encodedId);
+    return id ? { id, token } : null;
+  }
+  return null;
+}
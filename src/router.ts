@@ -0,0 +1,143 @@
+import type { Message, User } from './type';
+import type { ReplyStream } from './stream';
+import type {
+  BaseEventContext,
+  ContextHandler,
+  ContextHandlerOptions,
+  ContextMiddleware,
+} from './dispatcher';
+import type {
+  AnyEvents,
+  EventMap,
+  EventName,
+  EventRequest,
+  EventResponse,
+} from './events';
+import { joinRoute } from './pattern';
+import type { RoutePattern } from './pattern';
+
+/**
+ * 事件处理器类型
+ * Req / Res 为事件约定中的请求和回复数据类型，未约定时均为 any
+ */
+export type EventHandler<Req = any, Res = any> = ContextHandler<
+  EventContext<Req, Res>
+>;
+
+/**
+ * 事件上下文，中间件和事件处理器共用同一个对象
+ */
+export interface EventContext<
+  Req = any,
+  Res = any,
+> extends BaseEventContext<Req> {
+  /**
+   * 回复请求方，只有第一次调用生效
+   * 回复会在所有中间件执行完后发送，中间件可在 await next() 之后通过 response 检查或修改
+   * 处理器回复后 next() 立即返回，回复不等待处理器之后的工作
+   */
+  reply: (
+    data: Res | Message<Res> | null,
+    code?: number,
+    msg?: string,
+    headers?: Record<string, string>
+  ) => void;
+  user: User;
+  /** 流式回复，客户端通过 fetchStream 请求时逐块发送 */
+  stream: ReplyStream;
+}
+
+/**
+ * 中间件类型（洋葱模型）
+ * 调用 await next() 执行下游的中间件和事件处理器，之后可以检查或修改 ctx.response
+ * 不调用 next 且没有回复时，自动继续执行下游
+ */
+export type Middleware = ContextMiddleware<EventContext>;
+
+/**
+ * 带数据校验的事件处理器
+ */
+export type EventHandlerOptions<Req = any, Res = any> = ContextHandlerOptions<
+  Req,
+  EventHandler<Req, Res>
+>;
+
+/**
+ * 路由器中注册的处理器或中间件
+ */
+export type RouterEntry =
+  | { type: 'on'; event: string; handler: EventHandler | EventHandlerOptions }
+  | { type: 'use'; pattern?: string; handler: Middleware };
+
+/**
+ * 事件路由器
+ * 将一组事件处理器和中间件定义在单独的文件中，再通过 MasSocketServer.route(prefix, router) 挂载到前缀下
+ * - 事件名与前缀以 ':' 连接（前缀以 ':' 或 '/' 结尾时直接拼接），如挂载到 'chat' 时 'send' 对应 'chat:send'
+ * - 路由器的中间件只对该前缀下的事件生效
+ * - 挂载后注册的处理器同样生效，路由器可以挂载到多个前缀，也可以嵌套挂载其他路由器
+ */
+export class MasSocketRouter<E extends EventMap = AnyEvents> {
+  private entries: RouterEntry[] = [];
+  private listeners: ((entry: RouterEntry) => void)[] = [];
+
+  /**
+   * 注册事件处理器，参数与 MasSocketServer.on 相同，事件名相对于挂载前缀
+   */
+  on<K extends EventName<E>>(
+    event: K,
+    handler:
+      | EventHandler<EventRequest<E, K>, EventResponse<E, K>>
+      | EventHandlerOptions<EventRequest<E, K>, EventResponse<E, K>>
+  ): void;
+  on(pattern: RoutePattern, handler: EventHandler | EventHandlerOptions): void;
+  on(event: string, handler: EventHandler | EventHandlerOptions): void {
+    this.add({ type: 'on', event, handler });
+  }
+
+  /**
+   * 注册中间件，参数与 MasSocketServer.use 相同，只对挂载前缀下的事件生效
+   */
+  use(handler: Middleware): void;
+  use(pattern: string, handler: Middleware): void;
+  use(patternOrHandler: string | Middleware, handler?: Middleware): void {
+    if (typeof patternOrHandler === 'function') {
+      this.add({ type: 'use', handler: patternOrHandler });
+      return;
+    }
+    this.add({ type: 'use', pattern: patternOrHandler, handler: handler! });
+  }
+
+  /**
+   * 将其他路由器挂载到本路由器的前缀下
+   * @param prefix - 前缀，相对于本路由器的挂载前缀
+   * @param router - 要挂载的路由器
+   */
+  route(prefix: string, router: MasSocketRouter<any>): void {
+    router.attach(prefix, (entry) => this.add(entry));
+  }
+
+  /**
+   * 监听路由器中注册的处理器和中间件（由 route 调用）
+   * 已注册的会立即回放，之后注册的会在注册时通知
+   * @param prefix - 挂载前缀，通知的事件名和中间件模式都已加上前缀
+   * @param listener - 监听函数
+   */
+  attach(prefix: string, listener: (entry: RouterEntry) => void): void {
+    const prefixed = (entry: RouterEntry): RouterEntry =>
+      entry.type === 'on'
+        ? { ...entry, event: joinRoute(prefix, entry.event) }
+        : { ...entry, pattern: joinRoute(prefix, entry.pattern ?? '*') };
+
+    for (const entry of this.entries) {
+      listener(prefixed(entry));
+    }
+    this.listeners.push((entry) => listener(prefixed(entry)));
+  }
+
+  private add(entry: RouterEntry): void {
+    this.entries.push(entry);
+    for (const listener of this.listeners) {
+      listener(entry);
+    }
+  }
+}
@@ -0,0 +1,231 @@
+import { test, expect, describe } from 'bun:test';
+import { ValidationError, validateReply, validateSchema } from './schema';
+import type { JsonSchema, StandardSchemaV1 } from './schema';
+
+/**
+ * 创建 Standard Schema，validate 返回固定的结果
+ */
+function standardSchema(
+  validate: StandardSchemaV1['~standard']['validate']
+): StandardSchemaV1 {
+  return { '~standard': { version: 1, vendor: 'test', validate } };
+}
+
+const user: JsonSchema = {
+  type: 'object',
+  required: ['name', 'profile'],
+  properties: {
+    name: { type: 'string', minLength: 1 },
+    role: { enum: ['admin', 'member'] },
+    profile: {
+      type: 'object',
+      required: ['age'],
+      properties: {
+        age: { type: 'integer', minimum: 0 },
+        tags: { type: 'array', items: { type: 'string' } },
+      },
+    },
+  },
+};
+
+describe('validateSchema（JSON Schema）', () => {
+  test('校验通过时返回原数据', async () => {
+    const value = { name: 'Tom', role: 'admin', profile: { age: 18 } };
+    expect(await validateSchema(user, value)).toEqual({ value });
+  });
+
+  test('缺少必填属性', async () => {
+    expect(await validateSchema(user, { profile: {} })).toEqual({
+      issues: [
+        { path: 'name', message: 'Required' },
+        { path: 'profile.age', message: 'Required' },
+      ],
+    });
+  });
+
+  test('值为 undefined 的属性视为缺失', async () => {
+    const result = await validateSchema(user, {
+      name: undefined,
+      profile: { age: 1 },
+    });
+    expect(result.issues).toEqual([{ path: 'name', message: 'Required' }]);
+  });
+
+  test('嵌套属性和数组元素的字段路径', async () => {
+    const result = await validateSchema(user, {
+      name: '',
+      role: 'guest',
+      profile: { age: -1.5, tags: ['a', 2] },
+    });
+    expect(result.issues).toEqual([
+      { path: 'name', message: 'Must be at least 1 characters' },
+      { path: 'role', message: 'Expected one of "admin", "member"' },
+      { path: 'profile.age', message: 'Expected integer, received number' },
+      { path: 'profile.tags.1', message: 'Expected string, received integer' },
+    ]);
+  });
+
+  test('类型不匹配时不再检查其他关键字', async () => {
+    expect(await validateSchema(user, 'Tom')).toEqual({
+      issues: [{ path: '', message: 'Expected object, received string' }],
+    });
+    expect(await validateSchema(user, undefined)).toEqual({
+      issues: [{ path: '', message: 'Required' }],
+    });
+  });
+
+  test('type 区分 integer、number、null 和 array', async () => {
+    const check = async (schema: JsonSchema, value: unknown) =>
+      !(await validateSchema(schema, value)).issues;
+    expect(await check({ type: 'number' }, 1)).toBe(true);
+    expect(await check({ type: 'number' }, 1.5)).toBe(true);
+    expect(await check({ type: 'integer' }, 1.5)).toBe(false);
+    expect(await check({ type: 'object' }, null)).toBe(false);
+    expect(await check({ type: 'object' }, [])).toBe(false);
+    expect(await check({ type: 'array' }, [])).toBe(true);
+    expect(await check({ type: ['string', 'null'] }, null)).toBe(true);
+    expect(await check({ type: ['string', 'null'] }, 1)).toBe(false);
+  });
+
+  test('enum 和 const 按值比较', async () => {
+    const check = async (schema: JsonSchema, value: unknown) =>
+      !(await validateSchema(schema, value)).issues;
+    expect(await check({ enum: [{ a: [1] }, 2] }, { a: [1] })).toBe(true);
+    expect(await check({ enum: [{ a: [1] }] }, { a: [2] })).toBe(false);
+    expect(await check({ enum: [[1]] }, { 0: 1 })).toBe(false);
+    expect(await check({ const: null }, null)).toBe(true);
+    expect((await validateSchema({ const: 'x' }, 'y')).issues).toEqual([
+      { path: '', message: 'Expected "x"' },
+    ]);
+  });
+
+  test('字符串、数值和数组的范围关键字', async () => {
+    const issues = async (schema: JsonSchema, value: unknown) =>
+      (await validateSchema(schema, value)).issues?.map(
+        (issue) => issue.message
+      );
+    expect(await issues({ maxLength: 2 }, 'abc')).toEqual([
+      'Must be at most 2 characters',
+    ]);
+    expect(await issues({ pattern: '^\\d+$' }, '12a')).toEqual([
+      'Must match pattern ^\\d+$',
+    ]);
+    expect(await issues({ minimum: 1, maximum: 3 }, 4)).toEqual([
+      'Must be <= 3',
+    ]);
+    expect(await issues({ exclusiveMinimum: 1 }, 1)).toEqual(['Must be > 1']);
+    expect(await issues({ exclusiveMaximum: 1 }, 1)).toEqual(['Must be < 1']);
+    expect(await issues({ minItems: 1 }, [])).toEqual([
+      'Must contain at least 1 items',
+    ]);
+    expect(await issues({ maxItems: 1 }, [1, 2])).toEqual([
+      'Must contain at most 1 items',
+    ]);
+  });
+
+  test('additionalProperties', async () => {
+    const closed: JsonSchema = {
+      properties: { a: { type: 'string' } },
+      additionalProperties: false,
+    };
+    expect((await validateSchema(closed, { a: 'x', b: 1 })).issues).toEqual([
+      { path: 'b', message: 'Unknown property' },
+    ]);
+    const numbers: JsonSchema = { additionalProperties: { type: 'number' } };
+    expect((await validateSchema(numbers, { a: 1, b: 'x' })).issues).toEqual([
+      { path: 'b', message: 'Expected number, received string' },
+    ]);
+  });
+
+  test('allOf、anyOf 和 oneOf', async () => {
+    const allOf: JsonSchema = {
+      allOf: [{ type: 'number' }, { minimum: 10 }],
+    };
+    expect((await validateSchema(allOf, 5)).issues).toEqual([
+      { path: '', message: 'Must be >= 10' },
+    ]);
+    const anyOf: JsonSchema = { anyOf: [{ type: 'string' }, { type: 'null' }] };
+    expect((await validateSchema(anyOf, null)).issues).toBeUndefined();
+    expect((await validateSchema(anyOf, 1)).issues).toEqual([
+      { path: '', message: 'Must match at least one schema' },
+    ]);
+    const oneOf: JsonSchema = {
+      oneOf: [{ type: 'number' }, { type: 'integer' }],
+    };
+    expect((await validateSchema(oneOf, 1.5)).issues).toBeUndefined();
+    expect((await validateSchema(oneOf, 1)).issues).toEqual([
+      { path: '', message: 'Must match exactly one schema' },
+    ]);
+  });
+
+  test('空 schema 接受任意数据', async () => {
+    expect(await validateSchema({}, { any: 'thing' })).toEqual({
+      value: { any: 'thing' },
+    });
+  });
+});
+
+describe('validateSchema（Standard Schema）', () => {
+  test('识别 ~standard.validate 并返回转换后的数据', async () => {
+    const schema = standardSchema((value) => ({ value: Number(value) }));
+    expect(await validateSchema(schema, '42')).toEqual({ value: 42 });
+  });
+
+  test('支持异步 validate', async () => {
+    const schema = standardSchema(async (value) => ({ value: [value] }));
+    expect(await validateSchema(schema, 1)).toEqual({ value: [1] });
+  });
+
+  test('将 issues 的路径转换为字段路径', async () => {
+    const schema = standardSchema(() => ({
+      issues: [
+        { message: 'Too short', path: ['user', { key: 'tags' }, 0] },
+        { message: 'Invalid' },
+      ],
+    }));
+    expect(await validateSchema(schema, {})).toEqual({
+      issues: [
+        { path: 'user.tags.0', message: 'Too short' },
+        { path: '', message: 'Invalid' },
+      ],
+    });
+  });
+
+  test('~standard 不是校验器时按 JSON Schema 处理', async () => {
+    const schema = { '~standard': {}, type: 'string' } as JsonSchema;
+    expect((await validateSchema(schema, 1)).issues).toEqual([
+      { path: '', message: 'Expected string, received integer' },
+    ]);
+  });
+});
+
+describe('validateReply', () => {
+  const schema: JsonSchema = { type: 'object', required: ['id'] };
+
+  test('校验通过时 data 替换为校验后的数据', async () => {
+    const transform = standardSchema((value) => ({
+      value: { ...(value as object), checked: true },
+    }));
+    const reply = { code: 200, data: { id: 1 }, msg: 'success' };
+    expect(await validateReply(transform, reply)).toEqual({
+      ...reply,
+      data: { id: 1, checked: true },
+    });
+  });
+
+  test('校验失败时抛出 ValidationError', async () => {
+    const error = await validateReply(schema, {
+      code: 200,
+      data: {},
+      msg: 'success',
+    }).catch((error) => error);
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.message).toBe('Reply validation failed');
+    expect(error.issues).toEqual([{ path: 'id', message: 'Required' }]);
+  });
+
+  test('不校验失败的回复', async () => {
+    const reply = { code: 404, data: null, msg: 'Not found' };
+    expect(await validateReply(schema, reply)).toBe(reply);
+  });
+});
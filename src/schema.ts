@@ -0,0 +1,365 @@
+import type { Message } from './type';
+
+/**
+ * Standard Schema（https://standardschema.dev）校验器接口
+ * zod、valibot、arktype 等校验库的 schema 均实现了该接口，可直接使用
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly '~standard': {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown
+    ) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>;
+    readonly types?: { readonly input: Input; readonly output: Output };
+  };
+}
+
+/**
+ * Standard Schema 的校验结果
+ */
+export type StandardSchemaResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | {
+      readonly issues: ReadonlyArray<{
+        readonly message: string;
+        readonly path?: ReadonlyArray<
+          PropertyKey | { readonly key: PropertyKey }
+        >;
+      }>;
+    };
+
+/**
+ * JSON Schema 类型名称
+ */
+export type JsonSchemaType =
+  'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+/**
+ * JSON Schema（支持常用的校验关键字）
+ */
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  enum?: unknown[];
+  const?: unknown;
+  /** 对象属性 */
+  properties?: Record<string, JsonSchema>;
+  /** 必填属性 */
+  required?: string[];
+  /** 是否允许 properties 之外的属性，或额外属性需满足的 schema */
+  additionalProperties?: boolean | JsonSchema;
+  /** 数组元素 */
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  allOf?: JsonSchema[];
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  [keyword: string]: unknown;
+}
+
+/**
+ * 数据校验器，Standard Schema 或 JSON Schema
+ */
+export type Schema<T = any> = StandardSchemaV1<unknown, T> | JsonSchema;
+
+/**
+ * 字段校验错误
+ */
+export interface ValidationIssue {
+  /** 字段路径，如 'user.name'、'items.0.id'，根数据为空字符串 */
+  path: string;
+  /** 错误描述 */
+  message: string;
+}
+
+/**
+ * 校验结果：通过时为校验后的数据（Standard Schema 可能对数据做转换），失败时为字段错误
+ */
+export type ValidationResult<T = any> =
+  { value: T; issues?: undefined } | { issues: ValidationIssue[] };
+
+/**
+ * 数据校验失败的错误，issues 为字段错误列表
+ */
+export class ValidationError extends Error {
+  constructor(
+    readonly issues: ValidationIssue[],
+    message: string = 'Validation failed'
+  ) {
+    super(message);
+    this.name = 'ValidationError';
+  }
+}
+
+/**
+ * 判断是否为 Standard Schema
+ */
+function isStandardSchema(schema: Schema): schema is StandardSchemaV1 {
+  return (
+    !!schema &&
+    typeof (schema as StandardSchemaV1)['~standard']?.validate === 'function'
+  );
+}
+
+/**
+ * 将路径片段拼接为字段路径
+ */
+function joinPath(path: string, key: PropertyKey): string {
+  return path ? `${path}.${String(key)}` : String(key);
+}
+
+/**
+ * 获取值对应的 JSON Schema 类型
+ */
+function typeOf(value: unknown): JsonSchemaType | 'undefined' {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? 'integer' : 'number';
+  }
+  if (
+    typeof value === 'string' ||
+    typeof value === 'boolean' ||
+    typeof value === 'object'
+  ) {
+    return typeof value as JsonSchemaType;
+  }
+  return 'undefined';
+}
+
+/**
+ * 判断两个 JSON 值是否相等（用于 enum 和 const）
+ */
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || !a || !b) {
+    return false;
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  return (
+    keysA.length === keysB.length &&
+    keysA.every((key) =>
+      isEqual(
+        (a as Record<string, unknown>)[key],
+        (b as Record<string, unknown>)[key]
+      )
+    )
+  );
+}
+
+/**
+ * 按 JSON Schema 校验数据，将字段错误追加到 issues
+ */
+function validateJson(
+  schema: JsonSchema,
+  value: unknown,
+  path: string,
+  issues: ValidationIssue[]
+): void {
+  const actual = typeOf(value);
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const matched = types.some(
+      (type) => type === actual || (type === 'number' && actual === 'integer')
+    );
+    if (!matched) {
+      issues.push({
+        path,
+        message:
+          actual === 'undefined'
+            ? 'Required'
+            : `Expected ${types.join(' | ')}, received ${actual}`,
+      });
+      return;
+    }
+  }
+
+  if (schema.const !== undefined && !isEqual(value, schema.const)) {
+    issues.push({
+      path,
+      message: `Expected ${JSON.stringify(schema.const)}`,
+    });
+  }
+  if (schema.enum && !schema.enum.some((item) => isEqual(value, item))) {
+    issues.push({
+      path,
+      message: `Expected one of ${schema.enum.map((item) => JSON.stringify(item)).join(', ')}`,
+    });
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      issues.push({
+        path,
+        message: `Must be at least ${schema.minLength} characters`,
+      });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      issues.push({
+        path,
+        message: `Must be at most ${schema.maxLength} characters`,
+      });
+    }
+    if (
+      schema.pattern !== undefined &&
+      !new RegExp(schema.pattern, 'u').test(value)
+    ) {
+      issues.push({ path, message: `Must match pattern ${schema.pattern}` });
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      issues.push({ path, message: `Must be >= ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      issues.push({ path, message: `Must be <= ${schema.maximum}` });
+    }
+    if (
+      schema.exclusiveMinimum !== undefined &&
+      value <= schema.exclusiveMinimum
+    ) {
+      issues.push({ path, message: `Must be > ${schema.exclusiveMinimum}` });
+    }
+    if (
+      schema.exclusiveMaximum !== undefined &&
+      value >= schema.exclusiveMaximum
+    ) {
+      issues.push({ path, message: `Must be < ${schema.exclusiveMaximum}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      issues.push({
+        path,
+        message: `Must contain at least ${schema.minItems} items`,
+      });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      issues.push({
+        path,
+        message: `Must contain at most ${schema.maxItems} items`,
+      });
+    }
+    if (schema.items) {
+      value.forEach((item, index) =>
+        validateJson(schema.items!, item, joinPath(path, index), issues)
+      );
+    }
+  }
+
+  if (actual === 'object') {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (record[key] === undefined) {
+        issues.push({ path: joinPath(path, key), message: 'Required' });
+      }
+    }
+    for (const [key, item] of Object.entries(record)) {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        if (item !== undefined) {
+          validateJson(propertySchema, item, joinPath(path, key), issues);
+        }
+      } else if (schema.additionalProperties === false) {
+        issues.push({
+          path: joinPath(path, key),
+          message: 'Unknown property',
+        });
+      } else if (typeof schema.additionalProperties === 'object') {
+        validateJson(
+          schema.additionalProperties,
+          item,
+          joinPath(path, key),
+          issues
+        );
+      }
+    }
+  }
+
+  for (const subschema of schema.allOf ?? []) {
+    validateJson(subschema, value, path, issues);
+  }
+  if (schema.anyOf && countMatches(schema.anyOf, value, path) === 0) {
+    issues.push({ path, message: 'Must match at least one schema' });
+  }
+  if (schema.oneOf && countMatches(schema.oneOf, value, path) !== 1) {
+    issues.push({ path, message: 'Must match exactly one schema' });
+  }
+}
+
+/**
+ * 统计数据满足的子 schema 数量（用于 anyOf 和 oneOf）
+ */
+function countMatches(
+  subschemas: JsonSchema[],
+  value: unknown,
+  path: string
+): number {
+  return subschemas.filter((subschema) => {
+    const issues: ValidationIssue[] = [];
+    validateJson(subschema, value, path, issues);
+    return issues.length === 0;
+  }).length;
+}
+
+/**
+ * 使用 Standard Schema 或 JSON Schema 校验数据
+ * @param schema - 校验器
+ * @param value - 要校验的数据
+ * @returns 校验通过时返回校验后的数据，失败时返回字段错误
+ */
+export async function validateSchema<T = any>(
+  schema: Schema<T>,
+  value: unknown
+): Promise<ValidationResult<T>> {
+  if (isStandardSchema(schema)) {
+    const result = await schema['~standard'].validate(value);
+    if (!result.issues) {
+      return { value: result.value as T };
+    }
+    return {
+      issues: result.issues.map((issue) => ({
+        path: (issue.path ?? [])
+          .map((segment) =>
+            typeof segment === 'object' ? segment.key : segment
+          )
+          .reduce<string>(joinPath, ''),
+        message: issue.message,
+      })),
+    };
+  }
+
+  const issues: ValidationIssue[] = [];
+  validateJson(schema, value, '', issues);
+  return issues.length > 0 ? { issues } : { value: value as T };
+}
+
+/**
+ * 校验请求回复的 data
+ * 只校验成功的回复（状态码小于 400），失败时抛出 ValidationError
+ * @returns data 替换为校验后数据的回复
+ */
+export async function validateReply(
+  schema: Schema,
+  reply: Message
+): Promise<Message> {
+  if (!reply || reply.code >= 400) return reply;
+  const result = await validateSchema(schema, reply.data);
+  if (result.issues) {
+    throw new ValidationError(result.issues, 'Reply validation failed');
+  }
+  return { ...reply, data: result.value };
+}
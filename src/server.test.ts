@@ -0,0 +1,201 @@
+import { test, expect, describe, afterEach, spyOn } from 'bun:test';
+import { createServer } from 'http';
+import type { AddressInfo } from 'net';
+import MasSocketServer from './server';
+import MasSocketNodeClinet from './client-node';
+import { silentLogger } from './logger';
+
+/** 每个测试结束后按创建的逆序执行的清理函数 */
+const cleanups: (() => unknown)[] = [];
+
+afterEach(async () => {
+  for (const cleanup of cleanups.splice(0).reverse()) {
+    await cleanup();
+  }
+});
+
+/**
+ * 轮询直到 check 返回真值
+ */
+async function waitFor<T>(
+  check: () => T,
+  timeout: number = 2000
+): Promise<NonNullable<T>> {
+  const deadline = Date.now() + timeout;
+  for (;;) {
+    const value = check();
+    if (value) return value;
+    if (Date.now() > deadline) throw new Error('waitFor timed out');
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+}
+
+/**
+ * 启动监听随机端口的服务器
+ */
+async function startServer() {
+  const http = createServer();
+  await new Promise<void>((resolve) => http.listen(0, '127.0.0.1', resolve));
+  const server = new MasSocketServer();
+  server.logger = silentLogger;
+  server.bind(http);
+  cleanups.push(async () => {
+    await server.shutdown({ timeout: 0 });
+    await new Promise((resolve) => http.close(resolve));
+  });
+  const { port } = http.address() as AddressInfo;
+  return { server, url: `ws://127.0.0.1:${port}` };
+}
+
+/**
+ * 连接客户端，等待连接建立
+ * @returns 客户端及其在服务器上的用户信息
+ */
+async function connectClient(server: MasSocketServer, url: string) {
+  const known = new Set(server.clientsList.map((user) => user.id));
+  const client = new MasSocketNodeClinet();
+  client.logger = silentLogger;
+  client.connect(url);
+  cleanups.push(() => client.close());
+  const user = await waitFor(() =>
+    server.clientsList.find((user) => !known.has(user.id))
+  );
+  await waitFor(() => client.getConfig().status === 'connected');
+  return { client, user };
+}
+
+describe('主题订阅', () => {
+  test('订阅与分组相互独立', async () => {
+    const { server, url } = await startServer();
+    const a = await connectClient(server, url);
+    const b = await connectClient(server, url);
+    const received: unknown[] = [];
+    a.client.onTopic('news', (data) => received.push(data));
+
+    await a.client.subscribe('news');
+    expect(server.groups).toEqual({});
+    expect(a.user.groups).toEqual([]);
+
+    // 手动加入同名的分组不会订阅主题
+    server.addGroup('_topic:news', b.user.id);
+    expect(server.publish('news', 1)).toBe(1);
+    await waitFor(() => received.length === 1);
+    expect(received).toEqual([1]);
+
+    await a.client.unsubscribe('news');
+    expect(server.publish('news', 2)).toBe(0);
+  });
+
+  test('连接结束时取消订阅', async () => {
+    const { server, url } = await startServer();
+    const { client } = await connectClient(server, url);
+    await client.subscribe('news');
+    client.close();
+    await waitFor(() => server.clientsList.length === 0);
+    expect(server.publish('news', 1)).toBe(0);
+  });
+});
+
+describe('多目标 fetch', () => {
+  test('race 返回后其余请求被取消并清理 signal 监听', async () => {
+    const { server, url } = await startServer();
+    const fast = await connectClient(server, url);
+    const slow = await connectClient(server, url);
+    fast.client.on('job', async ({ reply }) => reply('fast'));
+    let cancelled = false;
+    slow.client.on(
+      'job',
+      ({ signal }) =>
+        new Promise<void>((resolve) =>
+          signal.addEventListener('abort', () => {
+            cancelled = true;
+            resolve();
+          })
+        )
+    );
+
+    const { signal } = new AbortController();
+    const removeListener = spyOn(signal, 'removeEventListener');
+    const result = await server.fetch(
+      [fast.user.id, slow.user.id],
+      'job',
+      null,
+      { mode: 'race', signal }
+    );
+    expect(result).toMatchObject({ id: fast.user.id, status: 'fulfilled' });
+    expect(removeListener).toHaveBeenCalledTimes(2);
+    await waitFor(() => cancelled);
+  });
+});
+
+describe('幂等请求', () => {
+  test('原请求在 ttl 内仍未回复时，重复的请求得到 409', async () => {
+    const { server, url } = await startServer();
+    server.idempotencyConfig = { enabled: true, ttl: 50, maxEntries: 10 };
+    let calls = 0;
+    server.on('slow', async ({ reply }) => {
+      calls++;
+      await new Promise((resolve) => setTimeout(resolve, 200));
+      reply('done');
+    });
+    const { client } = await connectClient(server, url);
+
+    const headers = { 'idempotency-key': 'k1' };
+    const first = client.fetch('slow', null, { headers });
+    const duplicate = await client.fetch('slow', null, { headers });
+    expect(duplicate.code).toBe(409);
+    expect((await first).data).toBe('done');
+    expect(calls).toBe(1);
+  });
+});
+
+describe('限流', () => {
+  test('按补充速度提供重试时间，不补充令牌的规则不提供', async () => {
+    const { server, url } = await startServer();
+    server.rateLimitConfig = {
+      ...server.rateLimitConfig,
+      events: {
+        slow: { capacity: 1, refillPerSecond: 0.5 },
+        once: { capacity: 1, refillPerSecond: 0 },
+      },
+    };
+    server.on('*', async ({ reply }) => reply('ok'));
+    const { client } = await connectClient(server, url);
+
+    expect((await client.fetch('slow', null)).code).toBe(200);
+    expect(await client.fetch('slow', null)).toMatchObject({
+      code: 429,
+      data: { retryAfter: expect.any(Number) },
+      header: { 'retry-after': '2' },
+    });
+
+    expect((await client.fetch('once', null)).code).toBe(200);
+    const limited = await client.fetch('once', null);
+    expect(limited.code).toBe(429);
+    expect(limited.data).toBeNull();
+    expect(limited).not.toHaveProperty('header');
+  });
+});
+
+describe('会话恢复', () => {
+  test('服务器主动关闭的连接不保留会话，直接触发 onDisconnect', async () => {
+    const { server, url } = await startServer();
+    server.resumeConfig = { enabled: true, gracePeriod: 1000 };
+    const disconnects: [string, string, number][] = [];
+    server.onDisconnect = (user, type, info) =>
+      disconnects.push([user.id, type, info.code]);
+    const kicked = await connectClient(server, url);
+    const remaining = await connectClient(server, url);
+
+    server.close(kicked.user.id, { code: 4000, reason: 'kick' });
+    expect(disconnects).toEqual([[kicked.user.id, 'close', 4000]]);
+    expect(server.clientsList).toEqual([remaining.user]);
+
+    await server.shutdown({ timeout: 0 });
+    expect(disconnects).toEqual([
+      [kicked.user.id, 'close', 4000],
+      [remaining.user.id, 'shutdown', 1001],
+    ]);
+    expect(server.clientsList).toEqual([]);
+  });
+});
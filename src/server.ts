@@ -1,14 +1,57 @@
 import { WebSocket, WebSocketServer } from 'ws';
-import { randomUUID } from 'crypto';
+import { randomUUID, timingSafeEqual } from 'crypto';
 import type { Express } from 'express';
-import type { Server as HttpServer } from 'http';
+import type { IncomingMessage, Server as HttpServer } from 'http';
 import type {
+  AuthRejection,
+  AuthResult,
+  BroadcastOptions,
+  CloseOptions,
+  ConcurrencyConfig,
+  DisconnectInfo,
   FetchConfig,
+  FetchResult,
+  HeartbeatConfig,
+  IdempotencyConfig,
+  RateLimitConfig,
+  ResumeConfig,
+  ShutdownOptions,
   User,
   Message,
   InternalMessage,
   PendingFetch,
 } from './type';
+import type { AdapterPacket, MasSocketAdapter, RemoteClient } from './adapter';
+import { cborCodec, getCodecProtocol, jsonCodec, msgpackCodec } from './codec';
+import type { MasSocketCodec } from './codec';
+import { BufferedReplyStream, ServerReplyStream } from './stream';
+import { IDEMPOTENCY_HEADER, ReplyCache } from './idempotency';
+import type { CachedReply } from './idempotency';
+import { RateLimiter } from './ratelimit';
+import { EventQueue } from './concurrency';
+import { CloseCode } from './close';
+import { createConsoleLogger } from './logger';
+import type { Logger } from './logger';
+import type { MasSocketMetrics } from './metrics';
+import { validateReply } from './schema';
+import { EventDispatcher } from './dispatcher';
+import { parseResumeProtocol } from './resume';
+import type { RoutePattern } from './pattern';
+import type {
+  EventContext,
+  EventHandler,
+  EventHandlerOptions,
+  Middleware,
+  MasSocketRouter,
+} from './router';
+import type {
+  AnyEvents,
+  EventContract,
+  EventMap,
+  EventName,
+  EventRequest,
+  EventResponse,
+} from './events';
 
 /**
  * 客户端连接信息
@@ -16,36 +59,131 @@ import type {
 interface ClientConnection {
   ws: WebSocket;
   user: User;
+  /** 连续未响应 pong 的次数 */
+  missedPongs: number;
+  /** 断开类型，在 close 事件中传给 onDisconnect，默认为 'close' */
+  closeType?: string;
+  /** 关闭码和原因，服务器主动关闭时记录发送的关闭码，否则在 close 事件中记录收到的关闭码 */
+  closeInfo?: DisconnectInfo;
+  /** 连接由服务器主动关闭（close、限流、shutdown），不保留会话 */
+  closedByServer?: boolean;
+  /** 会话恢复令牌 */
+  resumeToken: string;
+  /** 会话挂起定时器，存在时表示连接已断开、正在等待恢复 */
+  suspendTimer?: ReturnType<typeof setTimeout>;
+  /** 进行中的流式回复：fetchId -> 流 */
+  streams: Map<string, ServerReplyStream>;
+  /** 正在处理的请求：fetchId -> 取消控制器 */
+  controllers: Map<string, AbortController>;
+  /** 限流状态 */
+  rateLimiter: RateLimiter;
+  /** 事件处理队列 */
+  queue: EventQueue;
+  /** 订阅的主题 */
+  topics: Set<string>;
 }
 
 /**
- * 事件处理器类型
+ * fetch 的返回值类型
+ * - hasReply 为 false 时没有返回值
+ * - mode 为 'allSettled' / 'quorum' 时为 FetchResult 数组，'race' 时为单个 FetchResult
+ * - mode 为 'all' 时，单个目标为回复，多个目标为回复数组
  */
-type EventHandler = (args: {
-  reply: (data: any, code?: number, msg?: string) => void;
-  body: Message;
-  user: User;
-  fetchId: string;
-  header: Record<string, string>;
-  event: string;
-}) => Promise<void>;
+type FetchReply<
+  Res,
+  Id extends string | string[],
+  Mode extends FetchConfig['mode'],
+  HasReply extends boolean,
+> = HasReply extends false
+  ? void
+  : Mode extends 'allSettled' | 'quorum'
+    ? FetchResult<Res>[]
+    : Mode extends 'race'
+      ? FetchResult<Res>
+      : Id extends string
+        ? Message<Res>
+        : Message<Res>[];
+
+/**
+ * fetch 的类型：按事件约定推导请求数据和回复类型
+ */
+type ServerFetch<E extends EventMap> = <
+  K extends EventName<E>,
+  Id extends string | string[],
+  Mode extends FetchConfig['mode'] = 'all',
+  HasReply extends boolean = true,
+>(
+  id: Id,
+  event: K,
+  data: EventRequest<E, K>,
+  config?: FetchConfig & { mode?: Mode; hasReply?: HasReply }
+) => Promise<FetchReply<EventResponse<E, K>, Id, Mode, HasReply>>;
+
+/**
+ * fetchByGroup 的类型：按事件约定推导请求数据和回复类型
+ */
+type ServerFetchByGroup<E extends EventMap> = <
+  K extends EventName<E>,
+  Mode extends FetchConfig['mode'] = 'all',
+  HasReply extends boolean = true,
+>(
+  group: string | string[],
+  event: K,
+  data: EventRequest<E, K>,
+  config?: FetchConfig & { mode?: Mode; hasReply?: HasReply }
+) => Promise<FetchReply<EventResponse<E, K>, string[], Mode, HasReply>>;
+
+/**
+ * 连接认证钩子类型
+ */
+type AuthenticateHandler = (
+  req: IncomingMessage
+) =>
+  | AuthResult
+  | AuthRejection
+  | false
+  | Promise<AuthResult | AuthRejection | false>;
 
 /**
  * MasSocket 服务器类
  * 用于管理 WebSocket 连接、消息路由和客户端通信
  */
-class MasSocketServer {
+class MasSocketServer<E extends EventMap = AnyEvents> {
   private wss: WebSocketServer | null = null;
   private clients: Map<string, ClientConnection> = new Map();
-  private eventHandlers: Map<string, EventHandler[]> = new Map();
-  private middlewares: EventHandler[] = [];
+  /** 事件处理器和中间件 */
+  private dispatcher: EventDispatcher<EventContext> = new EventDispatcher();
   private pendingFetches: Map<string, PendingFetch> = new Map();
   /** 反向索引：客户端 ID -> 该客户端的所有待处理请求 ID 集合 */
   private clientPendingFetches: Map<string, Set<string>> = new Map();
+  /** 幂等请求的回复缓存 */
+  private replyCache: ReplyCache = new ReplyCache();
+  /** 主题订阅：主题 -> 订阅该主题的客户端 ID Set（与分组相互独立） */
+  private topics: Map<string, Set<string>> = new Map();
   /** 缓存的客户端列表 */
   private _cachedClientsList: User[] | null = null;
+  /** 升级请求 -> 认证结果，在 connection 事件中取出 */
+  private authResults: WeakMap<IncomingMessage, AuthResult> = new WeakMap();
+  /** 升级请求 -> 要恢复的会话 ID，在 connection 事件中取出 */
+  private resumeRequests: WeakMap<IncomingMessage, string> = new WeakMap();
+  /** 正在关闭的服务器，存在时拒绝新连接和新事件 */
+  private shutdownPromise: Promise<void> | null = null;
+  /** 心跳定时器 */
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  /** 多节点适配器 */
+  private adapter: MasSocketAdapter | null = null;
+  /** 其他节点上的客户端：客户端 ID -> 客户端信息及所在节点 */
+  private remoteClients: Map<string, RemoteClient & { nodeId: string }> =
+    new Map();
+  /** 其他节点上的客户端分组：组名 -> 客户端 ID Set */
+  private remoteGroups: Record<string, Set<string>> = {};
 
-  constructor() {}
+  /**
+   * @param _events - 事件约定（defineEvents 的返回值），仅用于推导事件表类型
+   */
+  constructor(_events?: EventContract<E>) {
+    this.registerSystemHandlers();
+  }
 
   /**
    * 默认的请求配置
@@ -58,12 +196,91 @@ class MasSocketServer {
     msg: 'success',
   };
 
+  /**
+   * 默认请求头
+   * 会附加到所有通过 fetch / fetchByGroup 发出的请求上，
+   * 与 FetchConfig.headers 合并（同名时以 FetchConfig.headers 为准）
+   */
+  defaultHeaders: Record<string, string> = {};
+
   /**
    * 最大消息大小（字节），默认 1MB
    * 超过此大小的消息将被拒绝
    */
   maxMessageSize: number = 1024 * 1024; // 1MB
 
+  /**
+   * 支持的编解码器
+   * 客户端连接时通过 WebSocket 子协议协商，按客户端给出的顺序选择第一个服务器支持的编解码器；
+   * 客户端未请求子协议时使用 JSON
+   */
+  codecs: MasSocketCodec[] = [jsonCodec, msgpackCodec, cborCodec];
+
+  /**
+   * 日志记录器，默认输出 warn 及以上级别到 console
+   * 可以替换为 pino 等日志库的实例，或使用 silentLogger 关闭日志
+   */
+  logger: Logger = createConsoleLogger('warn');
+
+  /**
+   * 指标收集器
+   * 在连接、断开、收发消息、事件处理开始和结束、回复、请求超时时调用，可以使用内置的 PrometheusMetrics
+   */
+  metrics: MasSocketMetrics | null = null;
+
+  /**
+   * 心跳配置
+   * 在 bind 时读取，修改后需重新 bind 才能生效
+   */
+  heartbeatConfig: HeartbeatConfig = {
+    interval: 30000,
+    maxMissedPongs: 2,
+  };
+
+  /**
+   * 幂等请求配置
+   * 请求头携带 idempotency-key 时，按（客户端 ID, 幂等键）缓存回复，
+   * 重复的请求（如客户端超时重试）直接返回缓存的回复而不再执行处理器；流式请求不缓存
+   */
+  idempotencyConfig: IdempotencyConfig = {
+    enabled: true,
+    ttl: 60000,
+    maxEntries: 10000,
+  };
+
+  /**
+   * 会话恢复配置
+   * 启用后，客户端异常断开时会话（ID、分组、待处理请求）会保留 gracePeriod 毫秒，
+   * 期间客户端携带 ID 和恢复令牌重连即可恢复原会话，不会触发 onDisconnect；
+   * 挂起中的会话仍保留在 clientsList 中
+   */
+  resumeConfig: ResumeConfig = {
+    enabled: false,
+    gracePeriod: 30000,
+  };
+
+  /**
+   * 限流配置（令牌桶）
+   * 未配置任何规则时不限流；事件请求被限流时回复 429，
+   * 回复头 retry-after 和 data.retryAfter 分别为建议的重试等待秒数和毫秒数，
+   * 因不补充令牌的规则被限流时两者都不提供（data 为 null）
+   */
+  rateLimitConfig: RateLimitConfig = {
+    maxViolations: 20,
+    violationWindow: 10000,
+  };
+
+  /**
+   * 事件处理的并发配置（按连接）
+   * 默认为 'parallel'，需要按顺序处理同一客户端的事件时（如协同编辑）使用 'serial'；
+   * 回复、取消等消息不排队，排队中的请求被取消时直接移出队列
+   */
+  concurrencyConfig: ConcurrencyConfig = {
+    mode: 'parallel',
+    limit: 10,
+    maxQueue: 1000,
+  };
+
   /**
    * 当前连接的客户端列表
    * 存储所有已连接的客户端信息
@@ -118,9 +335,46 @@ class MasSocketServer {
    * 客户端断开连接时的回调函数
    * 当客户端断开连接时触发（包括主动断开、网络错误等）
    * @param client - 断开连接的客户端用户信息
-   * @param type - 断开连接的类型（如 'close', 'error', 'timeout' 等）
+   * @param type - 断开连接的类型
+   *   - 'close': 连接正常关闭
+   *   - 'error': 连接发生错误
+   *   - 'timeout': 心跳超时，连接被服务器终止
+   *   - 'rate_limit': 频繁触发限流，连接被服务器断开
+   *   - 'shutdown': 服务器调用 shutdown 关闭
+   *   - 'replaced': 挂起中的会话被同一 ID 的新连接取代（未恢复该会话）
+   * @param info - 关闭码和原因，服务器主动关闭时为 close 传入的关闭码和原因
+   * 启用会话恢复时，异常断开的客户端在宽限期结束后才会触发此回调
+   */
+  onDisconnect = (_client: User, _type: string, _info: DisconnectInfo) => {};
+
+  /**
+   * 客户端恢复会话时的回调函数
+   * 当客户端在宽限期内重连并恢复原会话时触发（不会触发 onConnect）
+   * @param client - 恢复会话的客户端用户信息
+   */
+  onResume = (_client: User) => {};
+
+  /**
+   * 连接认证钩子
+   * 在 HTTP 升级阶段执行，用于拒绝连接或确定用户身份
+   * - 返回 AuthResult：认证通过，用于初始化 User 的 id、groups、meta
+   * - 返回 AuthRejection：拒绝连接，code 作为 HTTP 状态码返回（如 401、403）
+   * - 返回 false：拒绝连接，返回 401
+   * - 抛出异常：拒绝连接，返回 500
+   * 为 null 时接受所有连接并自动生成客户端 ID
+   * @param req - HTTP 升级请求，可读取 headers、url 等信息
+   */
+  authenticate: AuthenticateHandler | null = null;
+
+  /**
+   * 主题订阅授权钩子
+   * 客户端调用 subscribe 订阅主题时执行，返回 false 时拒绝订阅（403）
+   * 默认允许订阅所有主题
+   * @param user - 发起订阅的客户端用户信息
+   * @param topic - 要订阅的主题
    */
-  onDisconnect = (_client: User, _type: string) => {};
+  canSubscribe: (user: User, topic: string) => boolean | Promise<boolean> =
+    () => true;
 
   /**
    * 生成唯一的请求 ID
@@ -129,15 +383,274 @@ class MasSocketServer {
     return randomUUID();
   }
 
+  /**
+   * 注册内置的系统事件处理器
+   */
+  private registerSystemHandlers(): void {
+    // 客户端订阅主题
+    this.dispatcher.on('_system_subscribe', async ({ reply, body, user }) => {
+      const topic = body.data?.topic;
+      if (typeof topic !== 'string' || !topic) {
+        reply(null, 400, 'Topic is required');
+        return;
+      }
+      if (!(await this.canSubscribe(user, topic))) {
+        reply(null, 403, `Subscription to ${topic} denied`);
+        return;
+      }
+      this.subscribeTopic(user.id, topic);
+      reply({ topic }, 200, 'Subscribed');
+    });
+
+    // 客户端取消订阅主题
+    this.dispatcher.on('_system_unsubscribe', async ({ reply, body, user }) => {
+      const topic = body.data?.topic;
+      if (typeof topic !== 'string' || !topic) {
+        reply(null, 400, 'Topic is required');
+        return;
+      }
+      this.unsubscribeTopic(user.id, topic);
+      reply({ topic }, 200, 'Unsubscribed');
+    });
+  }
+
+  /**
+   * 为本节点上的客户端订阅主题
+   */
+  private subscribeTopic(id: string, topic: string): void {
+    const connection = this.clients.get(id);
+    if (!connection) return;
+
+    connection.topics.add(topic);
+    if (!this.topics.has(topic)) {
+      this.topics.set(topic, new Set());
+    }
+    this.topics.get(topic)!.add(id);
+  }
+
+  /**
+   * 取消本节点上的客户端对主题的订阅
+   */
+  private unsubscribeTopic(id: string, topic: string): void {
+    this.clients.get(id)?.topics.delete(topic);
+    const subscribers = this.topics.get(topic);
+    if (subscribers) {
+      subscribers.delete(id);
+      if (subscribers.size === 0) {
+        this.topics.delete(topic);
+      }
+    }
+  }
+
+  /**
+   * 将同一条消息发送给多个客户端
+   * 消息只序列化一次，不等待回复
+   * @returns 实际发送的客户端数量
+   */
+  private sendToMany(ids: Iterable<string>, message: InternalMessage): number {
+    // 每种编解码器只编码一次
+    const payloads: Map<MasSocketCodec, string | Uint8Array> = new Map();
+    let count = 0;
+    for (const id of ids) {
+      const connection = this.clients.get(id);
+      if (connection && connection.ws.readyState === WebSocket.OPEN) {
+        const codec = this.getCodec(connection.ws);
+        if (!payloads.has(codec)) {
+          payloads.set(codec, codec.encode(message));
+        }
+        connection.ws.send(payloads.get(codec)!);
+        this.recordMessageOut(connection, message, payloads.get(codec)!);
+        count++;
+      }
+    }
+    return count;
+  }
+
+  /**
+   * 获取连接协商的编解码器
+   */
+  private getCodec(ws: WebSocket): MasSocketCodec {
+    return (
+      this.codecs.find((codec) => getCodecProtocol(codec) === ws.protocol) ??
+      jsonCodec
+    );
+  }
+
+  /**
+   * 移除待处理的请求（同时清理超时定时器和反向索引）
+   * @returns 被移除的请求，不存在时返回 undefined
+   */
+  private removePendingFetch(fetchId: string): PendingFetch | undefined {
+    const pending = this.pendingFetches.get(fetchId);
+    if (!pending) return undefined;
+
+    clearTimeout(pending.timeout);
+    this.pendingFetches.delete(fetchId);
+
+    // 清理反向索引
+    const clientPendingSet = this.clientPendingFetches.get(pending.clientId);
+    if (clientPendingSet) {
+      clientPendingSet.delete(fetchId);
+      if (clientPendingSet.size === 0) {
+        this.clientPendingFetches.delete(pending.clientId);
+      }
+    }
+    return pending;
+  }
+
+  /**
+   * 取消待处理的请求并通知客户端（或客户端所在的节点）
+   * @returns 被取消的请求，不存在时返回 undefined
+   */
+  private cancelFetch(fetchId: string): PendingFetch | undefined {
+    const pending = this.removePendingFetch(fetchId);
+    if (!pending) return undefined;
+
+    const connection = this.clients.get(pending.clientId);
+    const remote = this.remoteClients.get(pending.clientId);
+    if (connection) {
+      this.sendMessage(connection, {
+        type: 'cancel',
+        fetchId,
+        body: { code: 499, data: null, msg: 'Request cancelled' },
+      });
+    } else if (remote && this.adapter) {
+      this.adapter.publish({
+        type: 'cancel',
+        from: this.adapter.nodeId,
+        to: remote.nodeId,
+        fetchId,
+      });
+    }
+    return pending;
+  }
+
+  /**
+   * 按 quorum / race 模式合并多个目标的结果
+   * 达到所需的成功数量后立即返回，并释放（取消）其余仍在等待的请求
+   * @param needed - 需要的成功回复数量
+   */
+  private settleEarly(
+    targets: { id: string; fetchId?: string; promise: Promise<any> }[],
+    needed: number
+  ): Promise<FetchResult[]> {
+    return new Promise((resolve, reject) => {
+      const fulfilled: FetchResult[] = [];
+      const settledIds = new Set<string>();
+      let rejected = 0;
+      let done = false;
+
+      const finish = () => {
+        done = true;
+        for (const { id, fetchId } of targets) {
+          if (fetchId && !settledIds.has(id)) {
+            // 让被取消的请求失败，以清理其超时定时器和 signal 监听
+            this.cancelFetch(fetchId)?.reject(new Error('Request cancelled'));
+          }
+        }
+      };
+
+      if (needed <= 0) {
+        resolve([]);
+        return;
+      }
+
+      for (const { id, promise } of targets) {
+        promise.then(
+          (body) => {
+            settledIds.add(id);
+            if (done) return;
+            fulfilled.push({ id, status: 'fulfilled', body });
+            if (fulfilled.length >= needed) {
+              finish();
+              resolve(fulfilled);
+            }
+          },
+          () => {
+            settledIds.add(id);
+            if (done) return;
+            rejected++;
+            if (targets.length - rejected < needed) {
+              finish();
+              reject(
+                new Error(
+                  `Only ${fulfilled.length} of ${targets.length} clients replied, ${needed} required`
+                )
+              );
+            }
+          }
+        );
+      }
+    });
+  }
+
+  /**
+   * 收集多个组内的所有客户端 ID（去重）
+   * @param includeRemote - 是否包含其他节点上的客户端
+   */
+  private collectGroupMembers(
+    groups: string[],
+    includeRemote: boolean = false
+  ): Set<string> {
+    const clientIds = new Set<string>();
+    for (const group of groups) {
+      const members = this._groups[group];
+      if (members) {
+        for (const id of members) {
+          clientIds.add(id);
+        }
+      }
+      const remoteMembers = includeRemote ? this.remoteGroups[group] : null;
+      if (remoteMembers) {
+        for (const id of remoteMembers) {
+          clientIds.add(id);
+        }
+      }
+    }
+    return clientIds;
+  }
+
   /**
    * 发送消息到客户端
    */
-  private sendMessage(ws: WebSocket, message: InternalMessage): void {
-    if (ws.readyState === WebSocket.OPEN) {
-      ws.send(JSON.stringify(message));
+  private sendMessage(
+    connection: ClientConnection,
+    message: InternalMessage
+  ): void {
+    const { ws } = connection;
+    if (ws.readyState !== WebSocket.OPEN) return;
+
+    const payload = this.getCodec(ws).encode(message);
+    ws.send(payload);
+    this.recordMessageOut(connection, message, payload);
+    if (message.type === 'reply' && message.fetchId) {
+      this.metrics?.reply?.({
+        clientId: connection.user.id,
+        fetchId: message.fetchId,
+        code: message.body.code,
+      });
     }
   }
 
+  /**
+   * 记录发送消息的指标
+   */
+  private recordMessageOut(
+    connection: ClientConnection,
+    message: InternalMessage,
+    payload: string | Uint8Array
+  ): void {
+    this.metrics?.messageOut?.({
+      clientId: connection.user.id,
+      type: message.type,
+      event: message.event,
+      bytes:
+        typeof payload === 'string'
+          ? Buffer.byteLength(payload)
+          : payload.byteLength,
+    });
+  }
+
   /**
    * 清理客户端连接
    */
@@ -145,7 +658,65 @@ class MasSocketServer {
     const connection = this.clients.get(clientId);
     if (!connection) return;
 
-    // 清理该客户端的所有待处理请求（使用反向索引，O(1) 查找）
+    if (connection.suspendTimer) {
+      clearTimeout(connection.suspendTimer);
+      connection.suspendTimer = undefined;
+    }
+
+    this.rejectClientFetches(clientId);
+    this.cancelStreams(connection);
+    connection.queue.clear();
+    for (const controller of connection.controllers.values()) {
+      controller.abort(new Error('Client disconnected'));
+    }
+    connection.controllers.clear();
+
+    // 从分组中移除（使用 Set，O(1) 删除）
+    const user = connection.user;
+    for (const group of user.groups) {
+      const groupMembers = this._groups[group];
+      if (groupMembers) {
+        groupMembers.delete(clientId);
+        if (groupMembers.size === 0) {
+          delete this._groups[group];
+        }
+      }
+    }
+
+    // 取消主题订阅
+    for (const topic of connection.topics) {
+      this.unsubscribeTopic(clientId, topic);
+    }
+
+    // 从客户端列表中移除
+    this.clients.delete(clientId);
+    
+    // 更新缓存
+    this.updateClientsListCache();
+
+    // 通知其他节点
+    this.adapter?.publish({
+      type: 'client-leave',
+      from: this.adapter.nodeId,
+      id: clientId,
+    });
+  }
+
+  /**
+   * 取消连接上所有进行中的流式回复
+   */
+  private cancelStreams(connection: ClientConnection): void {
+    for (const stream of connection.streams.values()) {
+      stream.cancel();
+    }
+    connection.streams.clear();
+  }
+
+  /**
+   * 让发往指定客户端的所有待处理请求失败
+   */
+  private rejectClientFetches(clientId: string): void {
+    // 使用反向索引，O(1) 查找
     const pendingFetchIds = this.clientPendingFetches.get(clientId);
     if (pendingFetchIds) {
       for (const fetchId of pendingFetchIds) {
@@ -156,40 +727,585 @@ class MasSocketServer {
           this.pendingFetches.delete(fetchId);
         }
       }
-      this.clientPendingFetches.delete(clientId);
-    }
+      this.clientPendingFetches.delete(clientId);
+    }
+  }
+
+  /**
+   * 向单个客户端发送请求并注册待处理的请求
+   * 客户端位于其他节点时，通过适配器转发给所在节点
+   * @param message - 请求消息，fetchId 为空时只发送不等待回复
+   * @param signal - 取消信号，中止时取消请求并通知客户端
+   */
+  private request(
+    clientId: string,
+    message: InternalMessage,
+    maxWait: number,
+    signal?: AbortSignal
+  ): Promise<any> {
+    const connection = this.clients.get(clientId);
+    const remote = connection ? undefined : this.remoteClients.get(clientId);
+    if (!connection && !remote) {
+      return Promise.reject(new Error(`Client ${clientId} not found`));
+    }
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+
+    const send = () => {
+      if (connection) {
+        this.sendMessage(connection, message);
+      } else {
+        this.adapter!.publish({
+          type: 'fetch',
+          from: this.adapter!.nodeId,
+          to: remote!.nodeId,
+          clientId,
+          message,
+          maxWait,
+        });
+      }
+    };
+
+    const { fetchId } = message;
+    if (!fetchId) {
+      send();
+      return Promise.resolve();
+    }
+
+    const promise = new Promise<any>((resolve, reject) => {
+      const onAbort = () => {
+        this.cancelFetch(fetchId)?.reject(signal!.reason);
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      const timeout = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        this.removePendingFetch(fetchId);
+        this.logger.warn(
+          { clientId, event: message.event, fetchId, duration: maxWait },
+          'Fetch timed out'
+        );
+        this.metrics?.fetchTimeout?.({
+          clientId,
+          event: message.event,
+          fetchId,
+        });
+        reject(new Error(`Request timeout after ${maxWait}ms`));
+      }, maxWait);
+
+      const pendingFetch: PendingFetch = {
+        resolve: (value: any) => {
+          clearTimeout(timeout);
+          signal?.removeEventListener('abort', onAbort);
+          resolve(value);
+        },
+        reject: (reason?: any) => {
+          clearTimeout(timeout);
+          signal?.removeEventListener('abort', onAbort);
+          reject(reason);
+        },
+        timeout,
+        clientId,
+        // 转发给其他节点的请求由所在节点负责会话恢复后的重发
+        message: connection ? message : undefined,
+      };
+
+      this.pendingFetches.set(fetchId, pendingFetch);
+
+      // 更新反向索引
+      if (!this.clientPendingFetches.has(clientId)) {
+        this.clientPendingFetches.set(clientId, new Set());
+      }
+      this.clientPendingFetches.get(clientId)!.add(fetchId);
+    });
+
+    // 发送消息
+    send();
+
+    return promise;
+  }
+
+  /**
+   * 向本节点上匹配的客户端发送广播消息
+   * @returns 实际发送的客户端数量
+   */
+  private deliverBroadcast(
+    message: InternalMessage,
+    groups: string[] | undefined,
+    except: string[],
+    filter?: (user: User) => boolean
+  ): number {
+    const excluded = new Set(except);
+    const targets =
+      groups === undefined
+        ? this.clients.keys()
+        : this.collectGroupMembers(groups);
+
+    const ids: string[] = [];
+    for (const id of targets) {
+      if (excluded.has(id)) continue;
+      if (filter) {
+        const connection = this.clients.get(id);
+        if (!connection || !filter(connection.user)) continue;
+      }
+      ids.push(id);
+    }
+    return this.sendToMany(ids, message);
+  }
+
+  /**
+   * 广播消息到本节点，并通过适配器广播到其他节点
+   * filter 无法跨节点传递，提供 filter 时只发送给本节点上的客户端
+   * @returns 本节点上实际发送的客户端数量
+   */
+  private broadcastMessage(
+    message: InternalMessage,
+    groups: string[] | undefined,
+    except: string[],
+    filter?: (user: User) => boolean
+  ): number {
+    if (this.adapter && !filter) {
+      this.adapter.publish({
+        type: 'broadcast',
+        from: this.adapter.nodeId,
+        message,
+        groups,
+        except,
+      });
+    }
+    return this.deliverBroadcast(message, groups, except, filter);
+  }
+
+  /**
+   * 向其他节点通知本节点客户端的最新信息（上线或分组变更）
+   */
+  private announceClient(user: User): void {
+    this.adapter?.publish({
+      type: 'client',
+      from: this.adapter.nodeId,
+      client: { id: user.id, groups: [...user.groups] },
+    });
+  }
+
+  /**
+   * 更新其他节点上的客户端信息
+   */
+  private upsertRemoteClient(nodeId: string, client: RemoteClient): void {
+    this.removeRemoteClient(client.id);
+    this.remoteClients.set(client.id, { ...client, nodeId });
+    for (const group of client.groups) {
+      if (!this.remoteGroups[group]) {
+        this.remoteGroups[group] = new Set();
+      }
+      this.remoteGroups[group].add(client.id);
+    }
+  }
+
+  /**
+   * 移除其他节点上的客户端信息
+   */
+  private removeRemoteClient(clientId: string): void {
+    const remote = this.remoteClients.get(clientId);
+    if (!remote) return;
+
+    for (const group of remote.groups) {
+      const members = this.remoteGroups[group];
+      if (members) {
+        members.delete(clientId);
+        if (members.size === 0) {
+          delete this.remoteGroups[group];
+        }
+      }
+    }
+    this.remoteClients.delete(clientId);
+  }
+
+  /**
+   * 处理其他节点发来的数据包
+   */
+  private handlePacket(packet: AdapterPacket): void {
+    const adapter = this.adapter;
+    if (!adapter || packet.from === adapter.nodeId) return;
+
+    switch (packet.type) {
+      case 'hello':
+        adapter.publish({
+          type: 'sync',
+          from: adapter.nodeId,
+          to: packet.from,
+          clients: this.clientsList.map((user) => ({
+            id: user.id,
+            groups: [...user.groups],
+          })),
+        });
+        break;
+
+      case 'sync':
+        for (const client of packet.clients) {
+          this.upsertRemoteClient(packet.from, client);
+        }
+        break;
+
+      case 'client':
+        this.upsertRemoteClient(packet.from, packet.client);
+        break;
+
+      case 'client-leave':
+        this.removeRemoteClient(packet.id);
+        this.rejectClientFetches(packet.id);
+        break;
+
+      case 'node-down':
+        for (const [id, remote] of this.remoteClients) {
+          if (remote.nodeId === packet.nodeId) {
+            this.removeRemoteClient(id);
+            this.rejectClientFetches(id);
+          }
+        }
+        break;
+
+      case 'broadcast':
+        this.deliverBroadcast(packet.message, packet.groups, packet.except);
+        break;
+
+      case 'publish':
+        this.sendToMany(this.topics.get(packet.topic) ?? [], packet.message);
+        break;
+
+      case 'fetch': {
+        const { clientId, message, maxWait } = packet;
+        const fetchId = message.fetchId;
+        if (!this.clients.has(clientId)) {
+          if (fetchId) {
+            adapter.publish({
+              type: 'fetch-reply',
+              from: adapter.nodeId,
+              to: packet.from,
+              fetchId,
+              error: `Client ${clientId} not found`,
+            });
+          }
+          break;
+        }
+
+        const result = this.request(clientId, message, maxWait);
+        if (fetchId) {
+          result.then(
+            (body) => {
+              adapter.publish({
+                type: 'fetch-reply',
+                from: adapter.nodeId,
+                to: packet.from,
+                fetchId,
+                body,
+              });
+            },
+            (error) => {
+              adapter.publish({
+                type: 'fetch-reply',
+                from: adapter.nodeId,
+                to: packet.from,
+                fetchId,
+                error: error instanceof Error ? error.message : String(error),
+              });
+            }
+          );
+        }
+        break;
+      }
+
+      case 'fetch-reply': {
+        const pending = this.removePendingFetch(packet.fetchId);
+        if (pending) {
+          if (packet.error !== undefined) {
+            pending.reject(new Error(packet.error));
+          } else {
+            pending.resolve(packet.body);
+          }
+        }
+        break;
+      }
+
+      case 'cancel':
+        this.cancelFetch(packet.fetchId);
+        break;
+
+      case 'group':
+        if (this.clients.has(packet.id)) {
+          if (packet.op === 'add') {
+            this.addGroup(packet.group, packet.id);
+          } else {
+            this.removeGroup(packet.group, packet.id);
+          }
+        }
+        break;
+    }
+  }
+
+  /**
+   * 启动心跳检测
+   * 每个周期向所有客户端发送 ping，超过阈值未响应的连接将被终止
+   */
+  private startHeartbeat(): void {
+    this.stopHeartbeat();
+
+    const { interval, maxMissedPongs } = this.heartbeatConfig;
+    if (interval <= 0) return;
+
+    this.heartbeatTimer = setInterval(() => {
+      for (const connection of this.clients.values()) {
+        if (connection.ws.readyState !== WebSocket.OPEN) continue;
+
+        if (connection.missedPongs >= maxMissedPongs) {
+          // terminate 会触发 close 事件，由 close 事件完成清理和回调
+          connection.closeType = 'timeout';
+          connection.ws.terminate();
+          continue;
+        }
+
+        connection.missedPongs++;
+        connection.ws.ping();
+      }
+    }, interval);
+  }
+
+  /**
+   * 停止心跳检测
+   */
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  /**
+   * 在 HTTP 升级阶段执行认证
+   * @returns 拒绝信息，认证通过时返回 null
+   */
+  private async verifyUpgrade(
+    req: IncomingMessage
+  ): Promise<AuthRejection | null> {
+    if (this.shutdownPromise) {
+      return { code: 503, msg: 'Server is shutting down' };
+    }
+
+    let auth: AuthResult = {};
+    if (this.authenticate) {
+      let result: AuthResult | AuthRejection | false;
+      try {
+        result = await this.authenticate(req);
+      } catch (error) {
+        this.logger.error({ err: error }, 'Authenticate error');
+        return { code: 500, msg: 'Authenticate error' };
+      }
+
+      if (!result) {
+        return { code: 401, msg: 'Unauthorized' };
+      }
+      if ('code' in result) {
+        return result;
+      }
+      auth = result;
+    }
+
+    const resumeId = this.matchResume(req, auth);
+    if (resumeId) {
+      this.resumeRequests.set(req, resumeId);
+    } else if (auth.id) {
+      // 挂起中（等待恢复）的会话不占用 ID，新连接建立时结束该会话
+      const existing = this.clients.get(auth.id);
+      if (existing && existing.suspendTimer === undefined) {
+        return { code: 409, msg: `Client ${auth.id} is already connected` };
+      }
+    }
+
+    this.authResults.set(req, auth);
+    return null;
+  }
+
+  /**
+   * 校验升级请求中的会话恢复信息（通过子协议发送的客户端 ID 和恢复令牌）
+   * @returns 可恢复的会话 ID，不可恢复时返回 null
+   */
+  private matchResume(req: IncomingMessage, auth: AuthResult): string | null {
+    if (!this.resumeConfig.enabled) return null;
+
+    const credentials = parseResumeProtocol(
+      req.headers['sec-websocket-protocol']
+    );
+    if (!credentials) return null;
+    const { id: resumeId, token: resumeToken } = credentials;
+
+    // 认证结果指定了其他 ID 时，不允许恢复
+    if (auth.id && auth.id !== resumeId) return null;
+
+    const connection = this.clients.get(resumeId);
+    if (!connection) return null;
+
+    const expected = Buffer.from(connection.resumeToken);
+    const actual = Buffer.from(resumeToken);
+    if (
+      expected.length !== actual.length ||
+      !timingSafeEqual(expected, actual)
+    ) {
+      return null;
+    }
+    return resumeId;
+  }
+
+  /**
+   * 挂起断开的客户端，等待其在宽限期内恢复会话
+   * @param type - 断开类型，宽限期结束时传给 onDisconnect
+   */
+  private suspendClient(connection: ClientConnection, type: string): void {
+    const { user } = connection;
+    // 流式回复无法跨连接恢复，客户端会在断开时让对应的流失败
+    this.cancelStreams(connection);
+    connection.suspendTimer = setTimeout(() => {
+      connection.suspendTimer = undefined;
+      if (this.clients.get(user.id) === connection) {
+        this.cleanupClient(user.id);
+        this.notifyDisconnect(user, type, connection.closeInfo!);
+      }
+    }, this.resumeConfig.gracePeriod);
+  }
+
+  /**
+   * 使用新的 WebSocket 连接恢复已有会话
+   */
+  private resumeClient(connection: ClientConnection, ws: WebSocket): void {
+    if (connection.suspendTimer) {
+      clearTimeout(connection.suspendTimer);
+      connection.suspendTimer = undefined;
+    }
+
+    // 旧连接可能尚未被检测到断开（半开连接），直接终止
+    const oldWs = connection.ws;
+    connection.ws = ws;
+    connection.missedPongs = 0;
+    connection.closeType = undefined;
+    connection.closeInfo = undefined;
+    connection.resumeToken = randomUUID();
+    if (oldWs.readyState !== WebSocket.CLOSED) {
+      oldWs.terminate();
+    }
+
+    this.attachSocket(connection);
+    this.sendSystemId(connection, true);
+
+    // 重新发送断开期间未得到回复的请求
+    const pendingFetchIds = this.clientPendingFetches.get(connection.user.id);
+    if (pendingFetchIds) {
+      for (const fetchId of pendingFetchIds) {
+        const message = this.pendingFetches.get(fetchId)?.message;
+        if (message) {
+          this.sendMessage(connection, message);
+        }
+      }
+    }
+
+    this.logger.info({ clientId: connection.user.id }, 'Client resumed');
+    this.onResume(connection.user);
+  }
+
+  /**
+   * 向客户端发送系统 ID 信息（包含会话恢复令牌）
+   */
+  private sendSystemId(connection: ClientConnection, resumed: boolean): void {
+    const data: Record<string, any> = { id: connection.user.id };
+    if (this.resumeConfig.enabled) {
+      data.resumeToken = connection.resumeToken;
+      data.resumed = resumed;
+    }
+    this.sendMessage(connection, {
+      type: 'event',
+      event: '_system_id',
+      body: {
+        code: 200,
+        data,
+        msg: resumed ? 'Session resumed' : 'Connection established',
+      },
+    });
+  }
+
+  /**
+   * 为连接的当前 WebSocket 注册事件监听
+   */
+  private attachSocket(connection: ClientConnection): void {
+    const { ws, user } = connection;
+
+    // 处理消息
+    ws.on('message', (data: Buffer) => {
+      this.handleMessage(connection, data).catch((error) => {
+        this.logger.error(
+          { clientId: connection.user.id, err: error },
+          'Error handling message'
+        );
+      });
+    });
+
+    // 收到 pong，重置心跳计数
+    ws.on('pong', () => {
+      connection.missedPongs = 0;
+    });
+
+    // 处理关闭
+    ws.on('close', (code: number, reason: Buffer) => {
+      // 会话已被新连接恢复，旧连接的关闭无需处理
+      if (connection.ws !== ws) return;
+
+      const type = connection.closeType ?? 'close';
+      connection.closeInfo ??= { code, reason: reason.toString() };
+      const info = connection.closeInfo;
+      // 连接可能已被 close() 提前清理，且 ID 可能已被新连接复用
+      if (this.clients.get(user.id) !== connection) {
+        this.notifyDisconnect(user, type, info);
+        return;
+      }
 
-    // 从分组中移除（使用 Set，O(1) 删除）
-    const user = connection.user;
-    for (const group of user.groups) {
-      const groupMembers = this._groups[group];
-      if (groupMembers) {
-        groupMembers.delete(clientId);
-        if (groupMembers.size === 0) {
-          delete this._groups[group];
-        }
+      // 客户端主动正常关闭（1000）或服务器主动关闭时不保留会话
+      if (
+        this.resumeConfig.enabled &&
+        code !== 1000 &&
+        !connection.closedByServer
+      ) {
+        this.suspendClient(connection, type);
+        return;
       }
-    }
 
-    // 从客户端列表中移除
-    this.clients.delete(clientId);
-    
-    // 更新缓存
-    this.updateClientsListCache();
+      this.cleanupClient(user.id);
+      this.notifyDisconnect(user, type, info);
+    });
+
+    // 处理错误（ws 在 error 之后总会触发 close 事件，由 close 事件完成清理）
+    ws.on('error', (error) => {
+      this.logger.warn({ clientId: user.id, err: error }, 'WebSocket error');
+      connection.closeType ??= 'error';
+    });
   }
 
   /**
    * 处理收到的消息
    */
   private async handleMessage(
-    ws: WebSocket,
-    user: User,
-    rawMessage: string
+    connection: ClientConnection,
+    rawMessage: Buffer
   ): Promise<void> {
+    const { user } = connection;
+
     // 检查消息大小
-    const messageSize = Buffer.byteLength(rawMessage, 'utf8');
-    if (messageSize > this.maxMessageSize) {
-      this.sendMessage(ws, {
+    if (rawMessage.length > this.maxMessageSize) {
+      this.metrics?.messageIn?.({
+        clientId: user.id,
+        bytes: rawMessage.length,
+      });
+      this.logger.warn(
+        { clientId: user.id, size: rawMessage.length },
+        'Message too large'
+      );
+      this.sendMessage(connection, {
         type: 'reply',
         body: {
           code: 413,
@@ -202,10 +1318,18 @@ class MasSocketServer {
 
     let message: InternalMessage;
     try {
-      message = JSON.parse(rawMessage) as InternalMessage;
-    } catch {
+      message = this.getCodec(connection.ws).decode(rawMessage);
+    } catch (error) {
       // 消息解析失败，发送错误回复
-      this.sendMessage(ws, {
+      this.metrics?.messageIn?.({
+        clientId: user.id,
+        bytes: rawMessage.length,
+      });
+      this.logger.warn(
+        { clientId: user.id, err: error },
+        'Invalid message format'
+      );
+      this.sendMessage(connection, {
         type: 'reply',
         body: {
           code: 400,
@@ -217,117 +1341,292 @@ class MasSocketServer {
     }
 
     const { type, event, fetchId = '', body, header = {} } = message;
+    this.metrics?.messageIn?.({
+      clientId: user.id,
+      type,
+      event,
+      bytes: rawMessage.length,
+    });
 
     // 如果是回复消息，处理待处理的请求
     if (type === 'reply' && fetchId) {
-      const pending = this.pendingFetches.get(fetchId);
+      const pending = this.removePendingFetch(fetchId);
       if (pending) {
-        clearTimeout(pending.timeout);
-        this.pendingFetches.delete(fetchId);
-        
-        // 清理反向索引
-        const clientPendingSet = this.clientPendingFetches.get(
-          pending.clientId
+        pending.resolve(
+          Object.keys(header).length > 0 ? { ...body, header } : body
         );
-        if (clientPendingSet) {
-          clientPendingSet.delete(fetchId);
-          if (clientPendingSet.size === 0) {
-            this.clientPendingFetches.delete(pending.clientId);
-          }
-        }
-        
-        pending.resolve(body);
       }
       return;
     }
 
+    // 流式回复的确认
+    if (type === 'ack') {
+      connection.streams.get(fetchId)?.ack(Number(body?.data) || 0);
+      return;
+    }
+
+    // 客户端取消请求：中止处理器的 signal，并停止流式回复
+    if (type === 'cancel') {
+      if (connection.queue.cancel(fetchId)) return;
+      connection.controllers
+        .get(fetchId)
+        ?.abort(new Error('Request cancelled'));
+      connection.controllers.delete(fetchId);
+      connection.streams.get(fetchId)?.cancel();
+      connection.streams.delete(fetchId);
+      return;
+    }
+
     // 如果是事件消息，执行中间件和事件处理器
     if (type === 'event' && event) {
-      let replied = false;
-      const reply = (data: any, code?: number, msg?: string) => {
-        if (replied) return;
-        replied = true;
-        
-        // 如果 data 是对象且包含 code 和 msg，则使用对象格式（向后兼容）
-        let replyBody: Message;
-        if (data && typeof data === 'object' && 'code' in data && 'msg' in data) {
-          replyBody = data as Message;
-        } else {
-          // 使用新的参数格式
-          replyBody = {
-            code: code ?? this.fetchConfig.code ?? 200,
-            data: data,
-            msg: msg ?? this.fetchConfig.msg ?? 'success',
+      // 服务器关闭期间不再处理新的事件
+      if (this.shutdownPromise) {
+        if (fetchId) {
+          this.sendMessage(connection, {
+            type: 'reply',
+            fetchId,
+            body: {
+              code: 503,
+              data: null,
+              msg: 'Server is shutting down',
+            },
+          });
+        }
+        return;
+      }
+
+      // 限流：被限流的请求不会执行中间件和事件处理器
+      const retryAfter = connection.rateLimiter.consume(
+        this.rateLimitConfig,
+        event,
+        user.groups
+      );
+      if (retryAfter > 0) {
+        this.logger.warn(
+          { clientId: user.id, event, fetchId, retryAfter },
+          'Rate limited'
+        );
+        if (fetchId) {
+          // 不补充令牌的规则（refillPerSecond 为 0）耗尽后无法通过等待恢复，不提供重试时间
+          const retryable = Number.isFinite(retryAfter);
+          const message: InternalMessage = {
+            type: 'reply',
+            fetchId,
+            body: {
+              code: 429,
+              data: retryable ? { retryAfter } : null,
+              msg: 'Too many requests',
+            },
           };
+          if (retryable) {
+            message.header = {
+              'retry-after': String(Math.ceil(retryAfter / 1000)),
+            };
+          }
+          this.sendMessage(connection, message);
+        }
+        const { maxViolations, violationWindow } = this.rateLimitConfig;
+        if (
+          maxViolations > 0 &&
+          connection.rateLimiter.recordViolation(violationWindow) >=
+            maxViolations
+        ) {
+          connection.closeType = 'rate_limit';
+          this.close(user.id, {
+            code: CloseCode.POLICY_VIOLATION,
+            reason: 'Rate limit exceeded',
+          });
         }
-        
-        this.sendMessage(ws, {
+        return;
+      }
+
+      // 按执行模式处理，排队数量已满时回复 503
+      const accepted = connection.queue.push(fetchId, () =>
+        this.handleEvent(connection, message).catch((error) => {
+          this.logger.error(
+            { clientId: user.id, event, fetchId, err: error },
+            'Error handling message'
+          );
+        })
+      );
+      if (!accepted) {
+        // 不需要回复的事件无法通知客户端，只记录日志
+        this.logger.warn(
+          { clientId: user.id, event, fetchId, queued: connection.queue.size },
+          'Event queue full, event dropped'
+        );
+      }
+      if (!accepted && fetchId) {
+        this.sendMessage(connection, {
           type: 'reply',
           fetchId,
-          body: replyBody,
+          body: {
+            code: 503,
+            data: null,
+            msg: 'Too many pending events',
+          },
         });
-      };
+      }
+    }
+  }
 
-      // 执行中间件
-      for (const middleware of this.middlewares) {
-        if (replied) break;
-        try {
-          await middleware({
-            reply,
-            body,
-            user,
-            fetchId,
-            header,
-            event,
-          });
-        } catch (error) {
-          console.error('Middleware error:', error);
-          if (!replied) {
-            reply(null, 500, 'Middleware error');
-          }
-          return;
-        }
+  /**
+   * 处理事件消息，执行中间件和事件处理器
+   */
+  private async handleEvent(
+    connection: ClientConnection,
+    message: InternalMessage
+  ): Promise<void> {
+    const { user } = connection;
+    const { fetchId = '', body, header = {} } = message;
+    const event = message.event!;
+    const startTime = Date.now();
+
+    // 幂等请求：重复的请求直接返回缓存的回复（或等待处理中的原请求完成）
+    const idempotencyKey =
+      fetchId && !message.stream && this.idempotencyConfig.enabled
+        ? header[IDEMPOTENCY_HEADER]
+        : undefined;
+    let completeIdempotent: ((reply: CachedReply) => void) | undefined;
+    if (idempotencyKey) {
+      const cacheKey = `${user.id}:${idempotencyKey}`;
+      const cached = this.replyCache.get(cacheKey);
+      if (cached) {
+        // 原请求在缓存过期前仍未回复时回复 409
+        const { body: cachedBody, header: cachedHeader } = (await cached) ?? {
+          body: { code: 409, data: null, msg: 'Request in progress' },
+        };
+        this.sendMessage(connection, {
+          type: 'reply',
+          fetchId,
+          body: cachedBody,
+          header: cachedHeader,
+        });
+        return;
       }
+      const { ttl, maxEntries } = this.idempotencyConfig;
+      completeIdempotent = this.replyCache.begin(cacheKey, ttl, maxEntries);
+    }
 
-      // 执行事件处理器
-      if (!replied) {
-        const handlers = this.eventHandlers.get(event) || [];
-        for (const handler of handlers) {
-          if (replied) break;
-          try {
-            await handler({
-              reply,
-              body,
-              user,
-              fetchId,
-              header,
-              event,
-            });
-          } catch (error) {
-            console.error(`Event handler error for ${event}:`, error);
-            if (!replied) {
-              reply(null, 500, 'Handler error');
-            }
-            return;
+    this.metrics?.handlerStart?.({ clientId: user.id, event });
+
+    /** 已发送回复的状态码 */
+    let replyCode: number | undefined;
+    let stream!: ServerReplyStream | BufferedReplyStream;
+
+    const controller = new AbortController();
+    const { signal } = controller;
+    if (fetchId) {
+      connection.controllers.set(fetchId, controller);
+    }
+
+    await this.dispatcher.dispatch(
+      (respond) => {
+        const reply = (
+          data: any,
+          code?: number,
+          msg?: string,
+          headers?: Record<string, string>
+        ) => {
+          // 如果 data 是对象且包含 code 和 msg，则使用对象格式（向后兼容）
+          let replyBody: Message;
+          if (
+            data &&
+            typeof data === 'object' &&
+            'code' in data &&
+            'msg' in data
+          ) {
+            replyBody = { ...(data as Message) };
+          } else {
+            // 使用新的参数格式
+            replyBody = {
+              code: code ?? this.fetchConfig.code ?? 200,
+              data: data,
+              msg: msg ?? this.fetchConfig.msg ?? 'success',
+            };
           }
-        }
+          if (headers) {
+            replyBody.header = headers;
+          }
+          respond(replyBody);
+        };
 
-        // 如果没有处理器且需要回复，发送默认回复
-        if (!replied && fetchId) {
-          reply(null, 404, `No handler for event: ${event}`);
+        // 客户端请求流式回复时逐块发送，否则收集分块后一次性回复
+        stream =
+          message.stream && fetchId
+            ? new ServerReplyStream(
+                message.stream,
+                (chunk) =>
+                  this.sendMessage(connection, {
+                    type: 'chunk',
+                    fetchId,
+                    body: { code: 200, data: chunk, msg: '' },
+                  }),
+                reply
+              )
+            : new BufferedReplyStream(reply);
+        if (stream instanceof ServerReplyStream) {
+          connection.streams.set(fetchId, stream);
         }
+
+        return {
+          reply,
+          body,
+          user,
+          fetchId,
+          header,
+          event,
+          params: {},
+          stream,
+          signal,
+          state: {},
+        };
+      },
+      {
+        send: (response) => {
+          replyCode = response.code;
+          stream.close();
+          connection.streams.delete(fetchId);
+          connection.controllers.delete(fetchId);
+
+          const { header: headers, ...replyBody } = response;
+          completeIdempotent?.({ body: replyBody, header: headers });
+          this.sendMessage(connection, {
+            type: 'reply',
+            fetchId,
+            body: replyBody,
+            header: headers,
+          });
+        },
+        started: () => stream.started,
+        logger: this.logger,
+        logFields: { clientId: user.id, event, fetchId },
       }
-    }
+    );
+
+    const duration = Date.now() - startTime;
+    this.logger.debug(
+      { clientId: user.id, event, fetchId, duration, code: replyCode },
+      'Event handled'
+    );
+    this.metrics?.handlerEnd?.({
+      clientId: user.id,
+      event,
+      duration,
+      code: replyCode,
+    });
   }
 
   /**
    * 将客户端添加到指定组
    * 客户端可以属于多个组，用于分组管理和消息广播
+   * 启用适配器时，客户端位于其他节点会转发给所在节点处理
    * @param group - 组名
    * @param id - 客户端 ID
    */
   addGroup(group: string, id: string): void {
     if (!this.clients.has(id)) {
+      if (this.routeGroupChange('add', group, id)) return;
       throw new Error(`Client ${id} not found`);
     }
 
@@ -342,17 +1641,20 @@ class MasSocketServer {
     if (connection) {
       if (!connection.user.groups.includes(group)) {
         connection.user.groups.push(group);
+        this.announceClient(connection.user);
       }
     }
   }
 
   /**
    * 将客户端从指定组中移除
+   * 启用适配器时，客户端位于其他节点会转发给所在节点处理
    * @param group - 组名
    * @param id - 客户端 ID
    */
   removeGroup(group: string, id: string): void {
     if (!this.clients.has(id)) {
+      if (this.routeGroupChange('remove', group, id)) return;
       throw new Error(`Client ${id} not found`);
     }
 
@@ -371,65 +1673,176 @@ class MasSocketServer {
       const userGroupIndex = connection.user.groups.indexOf(group);
       if (userGroupIndex > -1) {
         connection.user.groups.splice(userGroupIndex, 1);
+        this.announceClient(connection.user);
       }
     }
   }
 
+  /**
+   * 将分组变更转发给客户端所在的节点
+   * @returns 客户端位于其他节点并已转发时返回 true
+   */
+  private routeGroupChange(
+    op: 'add' | 'remove',
+    group: string,
+    id: string
+  ): boolean {
+    const remote = this.remoteClients.get(id);
+    if (!this.adapter || !remote) return false;
+
+    this.adapter.publish({
+      type: 'group',
+      from: this.adapter.nodeId,
+      to: remote.nodeId,
+      op,
+      group,
+      id,
+    });
+    return true;
+  }
+
   /**
    * 关闭所有客户端连接
    * 断开所有当前连接的客户端
+   * @param options - 关闭码和原因
    */
-  closeAll(): void {
-    for (const [id, connection] of this.clients.entries()) {
-      connection.ws.close();
-      this.cleanupClient(id);
-    }
+  closeAll(options?: CloseOptions): void {
+    this.close(Array.from(this.clients.keys()), options);
   }
 
   /**
    * 关闭指定组内的所有客户端连接
    * 根据组名批量关闭该组内所有客户端的连接
    * @param groups - 要关闭的组名数组
+   * @param options - 关闭码和原因
    */
-  closeByGroups(groups: string[]): void {
-    const clientIds = new Set<string>();
-    for (const group of groups) {
-      const members = this._groups[group];
-      if (members) {
-        for (const id of members) {
-          clientIds.add(id);
-        }
-      }
-    }
-    this.close(Array.from(clientIds));
+  closeByGroups(groups: string[], options?: CloseOptions): void {
+    this.close(Array.from(this.collectGroupMembers(groups)), options);
   }
 
   /**
    * 关闭指定的客户端连接
    * 可以传入单个客户端 ID 或 ID 数组来关闭对应的连接
    * @param ids - 要关闭的客户端 ID 或 ID 数组
+   * @param options - 关闭码和原因，如 { code: CloseCode.KICKED, reason: 'Kicked' }，客户端据此决定是否重连
    */
-  close(ids: string[] | string): void {
+  close(ids: string[] | string, options: CloseOptions = {}): void {
     const idArray = Array.isArray(ids) ? ids : [ids];
     for (const id of idArray) {
       const connection = this.clients.get(id);
       if (connection) {
-        connection.ws.close();
-        this.cleanupClient(id);
+        this.closeConnection(connection, options.code, options.reason);
       }
     }
   }
 
+  /**
+   * 关闭客户端连接并立即清理
+   * 先清理再关闭，close 事件（在 Bun 中可能同步触发）中会因连接已被清理而直接触发 onDisconnect
+   */
+  private closeConnection(
+    connection: ClientConnection,
+    code?: number,
+    reason?: string
+  ): void {
+    // 挂起中的会话连接已关闭，不会再触发 close 事件，需要直接回调
+    const suspended = connection.suspendTimer !== undefined;
+    connection.closedByServer = true;
+    connection.closeInfo = { code: code ?? 1005, reason: reason ?? '' };
+    this.cleanupClient(connection.user.id);
+    connection.ws.close(code, reason);
+    if (suspended) {
+      this.notifyDisconnect(
+        connection.user,
+        connection.closeType ?? 'close',
+        connection.closeInfo
+      );
+    }
+  }
+
+  /**
+   * 记录断开日志并触发 onDisconnect
+   */
+  private notifyDisconnect(
+    user: User,
+    type: string,
+    info: DisconnectInfo
+  ): void {
+    this.logger.info(
+      { clientId: user.id, type, code: info.code, reason: info.reason },
+      'Client disconnected'
+    );
+    this.metrics?.disconnect?.(user, type, info);
+    this.onDisconnect(user, type, info);
+  }
+
+  /**
+   * 平滑关闭服务器
+   * 1. 拒绝新的连接和新的事件（回复 503）
+   * 2. 向所有客户端发送 _system_shutdown 事件，客户端据此延迟重连
+   * 3. 等待处理中的事件（包括排队中的事件）和发往客户端的请求完成，最多等待 timeout 毫秒
+   * 4. 以 1001 关闭码断开所有客户端（断开类型为 'shutdown'），并关闭 WebSocket 服务器
+   * 多次调用返回同一个 Promise
+   * @param options - 关闭配置
+   */
+  shutdown(options: ShutdownOptions = {}): Promise<void> {
+    this.shutdownPromise ??= this.performShutdown(options);
+    return this.shutdownPromise;
+  }
+
+  private async performShutdown({
+    timeout = 10000,
+    reconnectDelay = 5000,
+    reason = 'Server shutting down',
+  }: ShutdownOptions): Promise<void> {
+    this.logger.info({ clients: this.clients.size, reason }, 'Shutting down');
+    for (const connection of this.clients.values()) {
+      this.sendMessage(connection, {
+        type: 'event',
+        event: '_system_shutdown',
+        body: { code: 200, data: { reconnectDelay, reason }, msg: reason },
+      });
+    }
+
+    // 等待处理中的事件和请求完成
+    const deadline = Date.now() + timeout;
+    const isIdle = () =>
+      this.pendingFetches.size === 0 &&
+      Array.from(this.clients.values()).every(
+        (connection) => connection.queue.size === 0
+      );
+    while (!isIdle() && Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    }
+
+    for (const connection of Array.from(this.clients.values())) {
+      connection.closeType = 'shutdown';
+      this.closeConnection(connection, CloseCode.GOING_AWAY, reason);
+    }
+
+    this.stopHeartbeat();
+    const wss = this.wss;
+    this.wss = null;
+    if (wss) {
+      await new Promise<void>((resolve) => wss.close(() => resolve()));
+    }
+    this.logger.info({}, 'Shutdown complete');
+  }
+
   /**
    * 向指定客户端发送请求并等待回复
    * 类似于 HTTP 请求-响应模式，发送消息后等待客户端回复
    * @param id - 目标客户端 ID 或 ID 数组（支持批量请求）
    * @param event - 事件名称，用于标识请求类型
    * @param data - 要发送的数据
-   * @param config - 可选的请求配置（如超时时间、是否需要回复等）
+   * @param config - 可选的请求配置（如超时时间、是否需要回复、结果模式等）
    * @returns 返回 Promise，resolve 时包含客户端的回复数据
+   *   - mode 为 'all'（默认）时：单个目标返回回复，多个目标返回回复数组，任意失败则整体失败
+   *   - mode 为 'allSettled' 时：返回每个目标的 FetchResult 数组
+   *   - mode 为 'quorum' 时：返回最先成功的 quorum 个 FetchResult，无法达到时失败
+   *   - mode 为 'race' 时：返回第一个成功的 FetchResult，全部失败时失败
    */
-  fetch = async (
+  fetch: ServerFetch<E> = async (
     id: string[] | string,
     event: string,
     data: any,
@@ -442,85 +1855,42 @@ class MasSocketServer {
       hasReply = true,
       code = 200,
       msg = 'success',
+      headers,
+      mode = 'all',
+      quorum,
+      signal,
+      schema,
     } = finalConfig;
+    const header = { ...this.defaultHeaders, ...headers };
+    signal?.throwIfAborted();
 
     // 如果没有需要回复，直接发送并返回
     if (!hasReply) {
+      const message: InternalMessage = {
+        type: 'event',
+        event,
+        body: {
+          code,
+          data,
+          msg,
+        },
+        header,
+      };
       for (const clientId of ids) {
-        const connection = this.clients.get(clientId);
-        if (connection) {
-          this.sendMessage(connection.ws, {
-            type: 'event',
-            event,
-            body: {
-              code,
-              data,
-              msg,
-            },
-          });
-        }
+        this.request(clientId, message, maxWait).catch(() => {
+          // 不需要回复时忽略不存在的客户端
+        });
       }
       return;
     }
 
-    // 需要回复，创建 Promise
-    const promises: Promise<any>[] = [];
+    // 需要回复，为每个目标创建请求
+    const targets: { id: string; fetchId?: string; promise: Promise<any> }[] =
+      [];
 
     for (const clientId of ids) {
-      const connection = this.clients.get(clientId);
-      if (!connection) {
-        promises.push(
-          Promise.reject(new Error(`Client ${clientId} not found`))
-        );
-        continue;
-      }
-
       const fetchId = this.generateFetchId();
-      const promise = new Promise<any>((resolve, reject) => {
-        const timeout = setTimeout(() => {
-          // 清理反向索引
-          const pending = this.pendingFetches.get(fetchId);
-          if (pending) {
-            const clientPendingSet = this.clientPendingFetches.get(
-              pending.clientId
-            );
-            if (clientPendingSet) {
-              clientPendingSet.delete(fetchId);
-              if (clientPendingSet.size === 0) {
-                this.clientPendingFetches.delete(pending.clientId);
-              }
-            }
-          }
-          this.pendingFetches.delete(fetchId);
-          reject(new Error(`Request timeout after ${maxWait}ms`));
-        }, maxWait);
-
-        const pendingFetch: PendingFetch = {
-          resolve: (value: any) => {
-            clearTimeout(timeout);
-            resolve(value);
-          },
-          reject: (reason?: any) => {
-            clearTimeout(timeout);
-            reject(reason);
-          },
-          timeout,
-          clientId,
-        };
-
-        this.pendingFetches.set(fetchId, pendingFetch);
-
-        // 更新反向索引
-        if (!this.clientPendingFetches.has(clientId)) {
-          this.clientPendingFetches.set(clientId, new Set());
-        }
-        this.clientPendingFetches.get(clientId)!.add(fetchId);
-      });
-
-      promises.push(promise);
-
-      // 发送消息
-      this.sendMessage(connection.ws, {
+      const message: InternalMessage = {
         type: 'event',
         event,
         fetchId,
@@ -529,16 +1899,45 @@ class MasSocketServer {
           data,
           msg,
         },
+        header,
+      };
+      const promise = this.request(clientId, message, maxWait, signal);
+      targets.push({
+        id: clientId,
+        fetchId,
+        promise: schema
+          ? promise.then((reply) => validateReply(schema, reply))
+          : promise,
       });
     }
 
-    // 如果只有一个请求，直接返回结果
-    if (promises.length === 1) {
-      return promises[0];
+    if (mode === 'all') {
+      // 如果只有一个请求，直接返回结果
+      if (targets.length === 1) {
+        return targets[0]!.promise;
+      }
+
+      // 多个请求，返回所有结果
+      return Promise.all(targets.map((target) => target.promise));
+    }
+
+    if (mode === 'allSettled') {
+      return Promise.all(
+        targets.map(({ id, promise }): Promise<FetchResult> =>
+          promise.then(
+            (body) => ({ id, status: 'fulfilled', body }),
+            (error) => ({ id, status: 'rejected', error })
+          )
+        )
+      );
+    }
+
+    if (mode === 'race') {
+      const [first] = await this.settleEarly(targets, 1);
+      return first;
     }
 
-    // 多个请求，返回所有结果
-    return Promise.all(promises);
+    return this.settleEarly(targets, quorum ?? targets.length);
   };
 
   /**
@@ -550,32 +1949,118 @@ class MasSocketServer {
    * @param config - 可选的请求配置（如超时时间、是否需要回复等）
    * @returns 返回 Promise，resolve 时包含所有客户端的回复数据
    */
-  fetchByGroup = async (
+  fetchByGroup: ServerFetchByGroup<E> = async (
     group: string | string[],
     event: string,
     data: any,
     config?: FetchConfig
   ): Promise<any> => {
     const groups = Array.isArray(group) ? group : [group];
-    const clientIds = new Set<string>();
-
-    // 收集所有组内的客户端 ID（使用 Set，O(1) 查找）
-    for (const groupName of groups) {
-      const members = this._groups[groupName];
-      if (members) {
-        for (const id of members) {
-          clientIds.add(id);
-        }
-      }
-    }
+    // 收集所有组内的客户端 ID（使用 Set，O(1) 查找），包含其他节点上的客户端
+    const clientIds = this.collectGroupMembers(groups, true);
 
     if (clientIds.size === 0) {
       return [];
     }
 
-    return this.fetch(Array.from(clientIds), event, data, config);
+    return this.fetch(
+      Array.from(clientIds),
+      event as EventName<E>,
+      data,
+      config
+    );
   };
 
+  /**
+   * 广播事件消息（不等待回复）
+   * 消息只序列化一次后发送给所有匹配的客户端，比 fetchByGroup 的 hasReply: false 更轻量
+   * @param event - 事件名称
+   * @param data - 要发送的数据
+   * @param options - 可选的广播配置
+   *   - groups: 目标组，不提供时发送给所有客户端
+   *   - except: 排除的客户端 ID（如消息发送者自己）
+   *   - filter: 自定义过滤函数（无法跨节点传递，启用适配器时提供 filter 只发送给本节点的客户端）
+   * @returns 本节点上实际发送的客户端数量
+   */
+  broadcast(event: string, data: any, options: BroadcastOptions = {}): number {
+    const { groups, except, filter } = options;
+    const groupList =
+      groups === undefined || Array.isArray(groups) ? groups : [groups];
+    const exceptList =
+      except === undefined ? [] : Array.isArray(except) ? except : [except];
+    const header = { ...this.defaultHeaders };
+    return this.broadcastMessage(
+      {
+        type: 'event',
+        event,
+        body: {
+          code: this.fetchConfig.code ?? 200,
+          data,
+          msg: this.fetchConfig.msg ?? 'success',
+        },
+        header: Object.keys(header).length > 0 ? header : undefined,
+      },
+      groupList,
+      exceptList,
+      filter
+    );
+  }
+
+  /**
+   * 向订阅了指定主题的所有客户端发布消息
+   * 客户端通过 subscribe 订阅主题，通过 onTopic 接收消息
+   * @param topic - 主题名称
+   * @param data - 要发布的数据
+   * @returns 本节点上实际发送的客户端数量
+   */
+  publish(topic: string, data: any): number {
+    const message: InternalMessage = {
+      type: 'event',
+      event: '_system_publish',
+      body: {
+        code: 200,
+        data: { topic, data },
+        msg: 'success',
+      },
+    };
+    if (this.adapter) {
+      this.adapter.publish({
+        type: 'publish',
+        from: this.adapter.nodeId,
+        topic,
+        message,
+      });
+    }
+    return this.sendToMany(this.topics.get(topic) ?? [], message);
+  }
+
+  /**
+   * 设置多节点适配器
+   * 多个进程或实例通过适配器共享客户端分组信息，实现跨节点的 broadcast、publish、
+   * fetch / fetchByGroup 和 addGroup / removeGroup；clientsList、groups 仍只包含本节点的客户端
+   * @param adapter - 适配器实例，如 MemoryAdapter、ClusterAdapter
+   */
+  setAdapter(adapter: MasSocketAdapter): void {
+    if (this.adapter) {
+      throw new Error('Adapter is already set');
+    }
+    this.adapter = adapter;
+    adapter.onPacket((packet) => this.handlePacket(packet));
+
+    // 请求其他节点同步客户端信息，并同步本节点已有的客户端
+    adapter.publish({ type: 'hello', from: adapter.nodeId });
+    if (this.clients.size > 0) {
+      adapter.publish({
+        type: 'sync',
+        from: adapter.nodeId,
+        clients: this.clientsList.map((user) => ({
+          id: user.id,
+          groups: [...user.groups],
+        })),
+      });
+    }
+  }
+
   /**
    * 将 WebSocket 服务器绑定到 Express 应用或 HTTP 服务器
    * 将 WebSocket 功能集成到现有的 Express 应用中
@@ -611,62 +2096,104 @@ class MasSocketServer {
       server = appOrServer as HttpServer;
     }
 
-    this.wss = new WebSocketServer({ server, path });
+    this.wss = new WebSocketServer({
+      server,
+      path,
+      // 按客户端给出的顺序选择第一个支持的编解码器
+      handleProtocols: (protocols) => {
+        for (const protocol of protocols) {
+          if (
+            this.codecs.some((codec) => getCodecProtocol(codec) === protocol)
+          ) {
+            return protocol;
+          }
+        }
+        return false;
+      },
+      verifyClient: (info, callback) => {
+        this.verifyUpgrade(info.req).then((rejection) => {
+          if (rejection) {
+            callback(false, rejection.code, rejection.msg);
+          } else {
+            callback(true);
+          }
+        });
+      },
+    });
+
+    this.wss.on('connection', (ws: WebSocket, req: IncomingMessage) => {
+      const auth = this.authResults.get(req) ?? {};
+      this.authResults.delete(req);
+
+      // 恢复已有会话（会话可能在认证之后已过期，此时按新连接处理）
+      const resumeId = this.resumeRequests.get(req);
+      this.resumeRequests.delete(req);
+      const resumable = resumeId ? this.clients.get(resumeId) : undefined;
+      if (resumable) {
+        this.resumeClient(resumable, ws);
+        return;
+      }
 
-    this.wss.on('connection', (ws: WebSocket) => {
-      // 使用 randomUUID 生成唯一的客户端 ID
-      const clientId = randomUUID();
+      // 认证结果未指定 ID 时，使用 randomUUID 生成唯一的客户端 ID
+      const clientId = auth.id ?? randomUUID();
+      // 同一身份在宽限期内以新连接登录（如新的标签页或设备）时，结束挂起中的旧会话
+      const suspended = this.clients.get(clientId);
+      if (suspended?.suspendTimer !== undefined) {
+        this.cleanupClient(clientId);
+        this.notifyDisconnect(suspended.user, 'replaced', suspended.closeInfo!);
+      }
+      if (this.clients.has(clientId)) {
+        // 并发升级时可能在认证之后才出现重复 ID
+        ws.close(CloseCode.POLICY_VIOLATION, 'Duplicate client id');
+        return;
+      }
       const user: User = {
         id: clientId,
         groups: [],
+        meta: { ...auth.meta },
       };
 
       const connection: ClientConnection = {
         ws,
         user,
+        missedPongs: 0,
+        resumeToken: randomUUID(),
+        streams: new Map(),
+        controllers: new Map(),
+        rateLimiter: new RateLimiter(),
+        queue: new EventQueue(() => this.concurrencyConfig),
+        topics: new Set(),
       };
 
       this.clients.set(clientId, connection);
 
+      // 加入认证结果指定的初始组
+      for (const group of auth.groups ?? []) {
+        this.addGroup(group, clientId);
+      }
+
       // 更新缓存
       this.updateClientsListCache();
 
+      this.attachSocket(connection);
+
+      // 通知其他节点
+      this.announceClient(user);
+
       // 触发连接回调
+      this.logger.info({ clientId }, 'Client connected');
+      this.metrics?.connect?.(user);
       this.onConnect(user);
 
       // 连接成功后，自动发送系统 ID 信息给客户端
-      this.sendMessage(ws, {
-        type: 'event',
-        event: '_system_id',
-        body: {
-          code: 200,
-          data: {
-            id: clientId,
-          },
-          msg: 'Connection established',
-        },
-      });
-
-      // 处理消息
-      ws.on('message', (data: Buffer) => {
-        this.handleMessage(ws, user, data.toString()).catch((error) => {
-          console.error('Error handling message:', error);
-        });
-      });
-
-      // 处理关闭
-      ws.on('close', () => {
-        this.cleanupClient(clientId);
-        this.onDisconnect(user, 'close');
-      });
+      this.sendSystemId(connection, false);
+    });
 
-      // 处理错误
-      ws.on('error', (error) => {
-        console.error('WebSocket error:', error);
-        this.cleanupClient(clientId);
-        this.onDisconnect(user, 'error');
-      });
+    this.wss.on('close', () => {
+      this.stopHeartbeat();
     });
+
+    this.startHeartbeat();
   }
 
   /**
@@ -674,33 +2201,114 @@ class MasSocketServer {
    * 监听客户端发送的特定事件，当收到对应事件时执行处理函数
    * @param event - 要监听的事件名称
    * @param handler - 事件处理函数
-   *   - reply: 用于向客户端发送回复的函数
+   *   - reply: 用于向客户端发送回复的函数，可通过第 4 个参数附带回复头部
    *   - body: 客户端发送的消息体
    *   - user: 发送消息的客户端用户信息
    *   - fetchId: 请求的唯一标识符（用于匹配请求和回复）
    *   - header: 消息的头部信息（可能包含认证、元数据等）
+   *   传入 { schema, handler } 时，中间件执行完后先用 schema 校验 body.data，
+   *   校验失败回复 400（data 为 { errors: [{ path, message }] }），通过后处理器收到校验后的数据
+   *   event 可以是模式：'*' 匹配任意字符（如 'user:*'），位于开头或 '/' 之后的 ':name' 为参数
+   *   （如 'room/:roomId/message'），参数通过 params 传给处理器；精确匹配的处理器优先执行
    */
-  on(event: string, handler: EventHandler): void {
-    if (!this.eventHandlers.has(event)) {
-      this.eventHandlers.set(event, []);
-    }
-    this.eventHandlers.get(event)!.push(handler);
+  on<K extends EventName<E>>(
+    event: K,
+    handler:
+      | EventHandler<EventRequest<E, K>, EventResponse<E, K>>
+      | EventHandlerOptions<EventRequest<E, K>, EventResponse<E, K>>
+  ): void;
+  on(pattern: RoutePattern, handler: EventHandler | EventHandlerOptions): void;
+  on(event: string, handler: EventHandler | EventHandlerOptions): void {
+    this.dispatcher.on(event, handler);
+  }
+
+  /**
+   * 注册兜底的事件处理器
+   * 事件没有匹配任何精确或模式处理器时执行，未注册时回复 404
+   * @param handler - 事件处理函数，可通过 ctx.event 获取事件名
+   */
+  onAny(handler: EventHandler): void {
+    this.dispatcher.onAny(handler);
+  }
+
+  /**
+   * 将路由器挂载到前缀下
+   * 路由器中的事件名与前缀以 ':' 连接（前缀以 ':' 或 '/' 结尾时直接拼接），
+   * 路由器的中间件只对该前缀下的事件生效
+   * @param prefix - 前缀，如 'chat'
+   * @param router - 路由器
+   */
+  route(prefix: string, router: MasSocketRouter<any>): void {
+    router.attach(prefix, (entry) => {
+      if (entry.type === 'on') {
+        this.dispatcher.on(entry.event, entry.handler);
+      } else {
+        this.dispatcher.use(entry.pattern, entry.handler);
+      }
+    });
   }
 
   /**
    * 注册中间件
-   * 中间件会在所有事件处理之前执行，可以用于认证、日志、数据转换等
+   * 中间件按洋葱模型执行，可以用于认证、日志、计时、错误处理、回复转换等
    * 可以注册多个中间件，它们会按注册顺序依次执行
-   * @param handler - 中间件处理函数
-   *   - reply: 用于向客户端发送回复的函数
-   *   - body: 客户端发送的消息体
-   *   - user: 发送消息的客户端用户信息
-   *   - fetchId: 请求的唯一标识符
-   *   - header: 消息的头部信息
+   * @param pattern - 可选的事件名模式（如 'admin:*'、'room/:roomId/*'），只对匹配的事件生效
+   * @param handler - 中间件处理函数 (ctx, next)
+   *   - ctx: 事件上下文（reply、body、user、fetchId、header、event、stream、signal）
+   *   - ctx.state: 向下游中间件和事件处理器传递数据
+   *   - ctx.response: 待发送的回复，await next() 之后可以检查或修改
+   *   - next: 执行下游的中间件和事件处理器；不调用且没有回复时自动继续执行下游
    */
-  use(handler: EventHandler): void {
-    this.middlewares.push(handler);
+  use(handler: Middleware): void;
+  use(pattern: string, handler: Middleware): void;
+  use(patternOrHandler: string | Middleware, handler?: Middleware): void {
+    if (typeof patternOrHandler === 'function') {
+      this.dispatcher.use(undefined, patternOrHandler);
+      return;
+    }
+    this.dispatcher.use(patternOrHandler, handler!);
   }
 }
 
 export default MasSocketServer;
+export { MemoryAdapter, ClusterAdapter } from './adapter';
+export { CloseCode } from './close';
+export { createConsoleLogger, silentLogger } from './logger';
+export { PrometheusMetrics } from './metrics';
+export type {
+  MasSocketMetrics,
+  MessageMetric,
+  HandlerMetric,
+  HandlerEndMetric,
+  ReplyMetric,
+  FetchTimeoutMetric,
+  PrometheusMetricsOptions,
+} from './metrics';
+export type { Logger, LogFields, LogLevel } from './logger';
+export type { MasSocketAdapter, AdapterPacket, RemoteClient } from './adapter';
+export { jsonCodec, msgpackCodec, cborCodec } from './codec';
+export type { MasSocketCodec } from './codec';
+export type { ReplyStream } from './stream';
+export { MasSocketRouter } from './router';
+export type {
+  EventContext,
+  EventHandler,
+  EventHandlerOptions,
+  Middleware,
+} from './router';
+export { ValidationError } from './schema';
+export type {
+  Schema,
+  JsonSchema,
+  StandardSchemaV1,
+  ValidationIssue,
+} from './schema';
+export { defineEvents } from './events';
+export type {
+  EventContract,
+  EventDefinition,
+  EventMap,
+  EventName,
+  EventRequest,
+  EventResponse,
+} from './events';
@@ -0,0 +1,277 @@
+import { test, expect, describe } from 'bun:test';
+import { BufferedReplyStream, FetchStream, ServerReplyStream } from './stream';
+import { flush } from './test-helpers';
+import type { Message } from './type';
+
+/**
+ * 创建服务器端流式回复，记录发送的分块和最终回复
+ */
+function createServerStream(window: number) {
+  const chunks: any[] = [];
+  const finished: any[][] = [];
+  const stream = new ServerReplyStream(
+    window,
+    (chunk) => chunks.push(chunk),
+    (...args) => finished.push(args)
+  );
+  return { stream, chunks, finished };
+}
+
+/**
+ * 创建客户端流式请求，记录确认和取消
+ */
+function createFetchStream(window: number = 4, chunkTimeout: number = 1000) {
+  const acks: number[] = [];
+  let cancels = 0;
+  const stream = new FetchStream({
+    window,
+    chunkTimeout,
+    onAck: (count) => acks.push(count),
+    onCancel: () => cancels++,
+  });
+  return { stream, acks, cancels: () => cancels };
+}
+
+const reply = (code: number, msg: string = 'success'): Message => ({
+  code,
+  data: null,
+  msg,
+});
+
+describe('ServerReplyStream', () => {
+  test('窗口内的分块立即发送', async () => {
+    const { stream, chunks } = createServerStream(2);
+    await stream.write('a');
+    await stream.write('b');
+    expect(chunks).toEqual(['a', 'b']);
+    expect(stream.started).toBe(true);
+  });
+
+  test('未确认的分块达到窗口时 write 等待，ack 后继续', async () => {
+    const { stream, chunks } = createServerStream(2);
+    await stream.write('a');
+    await stream.write('b');
+
+    let written = false;
+    const pending = stream.write('c').then(() => (written = true));
+    await flush();
+    expect(written).toBe(false);
+    expect(chunks).toEqual(['a', 'b']);
+
+    stream.ack(1);
+    await pending;
+    expect(chunks).toEqual(['a', 'b', 'c']);
+  });
+
+  test('等待中的多个写入和最终回复按顺序发送', async () => {
+    const { stream, chunks, finished } = createServerStream(1);
+    const writes = [stream.write(1), stream.write(2), stream.write(3)];
+    stream.end('done', 201, 'created');
+    await flush();
+    expect(chunks).toEqual([1]);
+    expect(finished).toEqual([]);
+
+    stream.ack(1);
+    await flush();
+    expect(chunks).toEqual([1, 2]);
+
+    stream.ack(2);
+    await Promise.all(writes);
+    await flush();
+    expect(chunks).toEqual([1, 2, 3]);
+    expect(finished).toEqual([['done', 201, 'created']]);
+  });
+
+  test('end 未传数据时最终回复为 null', async () => {
+    const { stream, finished } = createServerStream(2);
+    stream.end();
+    stream.end('ignored');
+    await flush();
+    expect(finished).toEqual([[null, undefined, undefined]]);
+    expect(stream.ended).toBe(true);
+  });
+
+  test('取消后等待中和之后的写入都失败，且不发送最终回复', async () => {
+    const { stream, chunks, finished } = createServerStream(1);
+    await stream.write('a');
+    const pending = stream.write('b');
+    stream.end();
+    stream.cancel();
+
+    await expect(pending).rejects.toThrow('Stream cancelled');
+    await expect(stream.write('c')).rejects.toThrow('Stream cancelled');
+    await flush();
+    expect(stream.cancelled).toBe(true);
+    expect(chunks).toEqual(['a']);
+    expect(finished).toEqual([]);
+  });
+
+  test('已发送最终回复后等待中的写入失败', async () => {
+    const { stream, chunks } = createServerStream(1);
+    await stream.write('a');
+    const pending = stream.write('b');
+    stream.close();
+
+    await expect(pending).rejects.toThrow('Stream already ended');
+    await expect(stream.write('c')).rejects.toThrow('Stream already ended');
+    expect(chunks).toEqual(['a']);
+  });
+
+  test('end 之后写入失败', async () => {
+    const { stream } = createServerStream(2);
+    stream.end();
+    await expect(stream.write('a')).rejects.toThrow('Stream already ended');
+  });
+
+  test('close 之后调用 end 不再发送最终回复', async () => {
+    const { stream, finished } = createServerStream(1);
+    await stream.write('a');
+    const pending = stream.write('b');
+    stream.close();
+    await expect(pending).rejects.toThrow();
+    // close 后 end 不再发送最终回复（已由 close 的调用方发送）
+    stream.end('late');
+    await flush();
+    expect(finished).toEqual([]);
+  });
+});
+
+describe('BufferedReplyStream', () => {
+  test('end 未传数据时以分块数组作为回复', async () => {
+    const finished: any[][] = [];
+    const stream = new BufferedReplyStream((...args) => finished.push(args));
+    await stream.write(1);
+    await stream.write(2);
+    stream.end();
+    expect(finished).toEqual([[[1, 2], undefined, undefined]]);
+    await expect(stream.write(3)).rejects.toThrow('Stream already ended');
+  });
+
+  test('end 传入数据时忽略分块', () => {
+    const finished: any[][] = [];
+    const stream = new BufferedReplyStream((...args) => finished.push(args));
+    stream.write(1);
+    stream.end({ total: 1 }, 206, 'partial');
+    stream.end('ignored');
+    expect(finished).toEqual([[{ total: 1 }, 206, 'partial']]);
+  });
+});
+
+describe('FetchStream', () => {
+  test('按顺序读取已缓存和之后收到的分块，收到最终回复后结束', async () => {
+    const { stream } = createFetchStream();
+    stream.push('a');
+    stream.push('b');
+    const received: string[] = [];
+    const iterate = (async () => {
+      for await (const chunk of stream) {
+        received.push(chunk);
+      }
+    })();
+    await flush();
+    stream.push('c');
+    stream.finish(reply(200));
+    await iterate;
+    expect(received).toEqual(['a', 'b', 'c']);
+    expect(await stream.result).toEqual(reply(200));
+  });
+
+  test('每消费半个窗口确认一次', async () => {
+    const { stream, acks } = createFetchStream(4);
+    for (const chunk of [1, 2, 3, 4, 5]) {
+      stream.push(chunk);
+    }
+    for (let i = 0; i < 5; i++) {
+      await stream.next();
+    }
+    expect(acks).toEqual([2, 2]);
+  });
+
+  test('等待分块超时后取消流', async () => {
+    const { stream, cancels } = createFetchStream(4, 20);
+    await expect(stream.next()).rejects.toThrow(
+      'Stream chunk timeout after 20ms'
+    );
+    expect(cancels()).toBe(1);
+    await expect(stream.result).rejects.toThrow('Stream chunk timeout');
+    // 超时后收到的分块被忽略
+    stream.push('late');
+    await expect(stream.next()).rejects.toThrow('Stream chunk timeout');
+  });
+
+  test('收到分块后重新计时', async () => {
+    const { stream, cancels } = createFetchStream(4, 30);
+    const first = stream.next();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    stream.push('a');
+    expect(await first).toEqual({ value: 'a', done: false });
+    const second = stream.next();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    stream.finish(reply(200));
+    expect(await second).toEqual({ value: undefined, done: true });
+    expect(cancels()).toBe(0);
+  });
+
+  test('提前结束迭代时取消流', async () => {
+    const { stream, cancels } = createFetchStream();
+    stream.push(1);
+    stream.push(2);
+    for await (const chunk of stream) {
+      expect(chunk).toBe(1);
+      break;
+    }
+    expect(cancels()).toBe(1);
+    await expect(stream.result).rejects.toThrow('Stream cancelled');
+    await expect(stream.next()).rejects.toThrow('Stream cancelled');
+  });
+
+  test('状态码大于等于 400 时，先读完已收到的分块再以错误结束', async () => {
+    const { stream } = createFetchStream();
+    stream.push('a');
+    stream.push('b');
+    stream.finish(reply(500, 'Handler failed'));
+
+    expect(await stream.next()).toEqual({ value: 'a', done: false });
+    expect(await stream.next()).toEqual({ value: 'b', done: false });
+    await expect(stream.next()).rejects.toThrow('Handler failed');
+    expect((await stream.result).code).toBe(500);
+  });
+
+  test('等待中的 next 在错误回复时失败', async () => {
+    const { stream } = createFetchStream();
+    const pending = stream.next();
+    stream.finish({ code: 403, data: null, msg: '' });
+    await expect(pending).rejects.toThrow('Stream failed with code 403');
+  });
+
+  test('连接断开时等待中的 next 失败，不通知服务器', async () => {
+    const { stream, cancels } = createFetchStream();
+    const pending = stream.next();
+    stream.fail(new Error('Connection closed'));
+    await expect(pending).rejects.toThrow('Connection closed');
+    await expect(stream.result).rejects.toThrow('Connection closed');
+    stream.cancel();
+    expect(cancels()).toBe(0);
+  });
+
+  test('不允许并发调用 next', async () => {
+    const { stream } = createFetchStream();
+    const first = stream.next();
+    await expect(stream.next()).rejects.toThrow(
+      'Concurrent next() calls on a stream'
+    );
+    stream.push('a');
+    expect(await first).toEqual({ value: 'a', done: false });
+    stream.cancel();
+  });
+
+  test('主动取消时使用传入的原因', async () => {
+    const { stream, cancels } = createFetchStream();
+    stream.push('a');
+    const pending = stream.next();
+    stream.cancel(new Error('User aborted'));
+    expect(await pending).toEqual({ value: 'a', done: false });
+    await expect(stream.next()).rejects.toThrow('User aborted');
+    expect(cancels()).toBe(1);
+  });
+});
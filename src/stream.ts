@@ -0,0 +1,337 @@
+import type { Message } from './type';
+
+/**
+ * 流式回复（服务器端事件处理器中的 stream 参数）
+ * - 客户端通过 fetchStream 请求时，每个分块立即发送，客户端以异步迭代器接收
+ * - 客户端通过普通 fetch 请求时，分块会被收集，end() 未传数据时以分块数组作为回复
+ */
+export interface ReplyStream {
+  /**
+   * 写入一个分块
+   * 客户端未消费的分块达到接收窗口时等待（背压）；流已取消或已结束时抛出错误
+   */
+  write(chunk: any): Promise<void>;
+  /**
+   * 结束流，在已写入的分块发送完成后发送最终回复
+   * @param data - 最终回复数据，默认为 null
+   * @param code - 状态码，默认为 200
+   * @param msg - 消息描述，默认为 'success'
+   */
+  end(data?: any, code?: number, msg?: string): void;
+  /** 流是否已被取消（客户端取消、分块超时或断开连接） */
+  readonly cancelled: boolean;
+}
+
+/**
+ * 服务器端流式回复
+ * 基于接收窗口的背压：已发送未确认的分块数达到窗口大小时，write 等待客户端确认
+ */
+export class ServerReplyStream implements ReplyStream {
+  /** 已发送的分块数 */
+  private sent: number = 0;
+  /** 客户端已确认（已消费）的分块数 */
+  private acked: number = 0;
+  /** 等待窗口空出的写入 */
+  private waiters: (() => void)[] = [];
+  /** 保证分块和最终回复按顺序发送 */
+  private tail: Promise<void> = Promise.resolve();
+  private _cancelled: boolean = false;
+  /** 是否已直接发送了最终回复，之后不再发送任何分块 */
+  private closed: boolean = false;
+  /** 是否已调用 write 或 end（用于判断处理器是否已作出回复） */
+  started: boolean = false;
+  /** 是否已结束（调用了 end 或已发送最终回复） */
+  ended: boolean = false;
+
+  /**
+   * @param window - 客户端接收窗口大小
+   * @param sendChunk - 发送分块
+   * @param finish - 发送最终回复
+   */
+  constructor(
+    private window: number,
+    private sendChunk: (chunk: any) => void,
+    private finish: (data: any, code?: number, msg?: string) => void
+  ) {}
+
+  get cancelled(): boolean {
+    return this._cancelled;
+  }
+
+  write(chunk: any): Promise<void> {
+    if (this._cancelled) {
+      return Promise.reject(new Error('Stream cancelled'));
+    }
+    if (this.ended) {
+      return Promise.reject(new Error('Stream already ended'));
+    }
+    this.started = true;
+
+    const task = this.tail.then(async () => {
+      while (
+        this.sent - this.acked >= this.window &&
+        !this._cancelled &&
+        !this.closed
+      ) {
+        await new Promise<void>((resolve) => this.waiters.push(resolve));
+      }
+      if (this._cancelled) {
+        throw new Error('Stream cancelled');
+      }
+      if (this.closed) {
+        throw new Error('Stream already ended');
+      }
+      this.sent++;
+      this.sendChunk(chunk);
+    });
+    this.tail = task.catch(() => {});
+    return task;
+  }
+
+  end(data: any = null, code?: number, msg?: string): void {
+    if (this.ended) return;
+    this.ended = true;
+    this.started = true;
+    this.tail.then(() => {
+      if (!this._cancelled && !this.closed) {
+        this.finish(data, code, msg);
+      }
+    });
+  }
+
+  /**
+   * 客户端确认已消费的分块，释放接收窗口
+   */
+  ack(count: number): void {
+    this.acked += count;
+    this.wake();
+  }
+
+  /**
+   * 取消流，等待中和之后的写入都会失败
+   */
+  cancel(): void {
+    this._cancelled = true;
+    this.wake();
+  }
+
+  /**
+   * 已发送最终回复（end 完成或处理器出错），之后的写入失败
+   */
+  close(): void {
+    this.ended = true;
+    this.closed = true;
+    this.wake();
+  }
+
+  private wake(): void {
+    const waiters = this.waiters;
+    this.waiters = [];
+    for (const resolve of waiters) {
+      resolve();
+    }
+  }
+}
+
+/**
+ * 普通 fetch 请求使用的流式回复，收集分块后一次性回复
+ */
+export class BufferedReplyStream implements ReplyStream {
+  private chunks: any[] = [];
+  started: boolean = false;
+  ended: boolean = false;
+  readonly cancelled: boolean = false;
+
+  constructor(
+    private finish: (data: any, code?: number, msg?: string) => void
+  ) {}
+
+  async write(chunk: any): Promise<void> {
+    if (this.ended) {
+      throw new Error('Stream already ended');
+    }
+    this.started = true;
+    this.chunks.push(chunk);
+  }
+
+  end(data?: any, code?: number, msg?: string): void {
+    if (this.ended) return;
+    this.ended = true;
+    this.started = true;
+    this.finish(data === undefined ? this.chunks : data, code, msg);
+  }
+
+  close(): void {
+    this.ended = true;
+  }
+}
+
+/**
+ * 客户端流式请求的选项
+ */
+interface FetchStreamOptions {
+  /** 接收窗口大小 */
+  window: number;
+  /** 等待下一个分块的超时时间（毫秒） */
+  chunkTimeout: number;
+  /** 确认已消费的分块数 */
+  onAck: (count: number) => void;
+  /** 流被取消（主动取消、超时或迭代提前结束）时调用，用于通知服务器并清理 */
+  onCancel: () => void;
+}
+
+/**
+ * 客户端流式请求（fetchStream 的返回值）
+ * 以异步迭代器的方式逐个读取服务器写入的分块，迭代在服务器调用 end() 后结束
+ */
+export class FetchStream<T = any> implements AsyncIterableIterator<T> {
+  /** 最终回复，流结束时 resolve；流失败（超时、断开、取消）时 reject */
+  readonly result: Promise<Message>;
+  private resolveResult!: (message: Message) => void;
+  private rejectResult!: (error: Error) => void;
+  /** 已收到但尚未被消费的分块 */
+  private buffer: T[] = [];
+  /** 正在等待下一个分块的 next() 调用 */
+  private waiting: {
+    resolve: (result: IteratorResult<T>) => void;
+    reject: (error: Error) => void;
+  } | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private done: boolean = false;
+  private error: Error | null = null;
+  /** 已消费但尚未确认的分块数 */
+  private unacked: number = 0;
+
+  constructor(private options: FetchStreamOptions) {
+    this.result = new Promise<Message>((resolve, reject) => {
+      this.resolveResult = resolve;
+      this.rejectResult = reject;
+    });
+    // 未使用 result 时避免未处理的 Promise 拒绝
+    this.result.catch(() => {});
+  }
+
+  [Symbol.asyncIterator](): this {
+    return this;
+  }
+
+  next(): Promise<IteratorResult<T>> {
+    if (this.buffer.length > 0) {
+      const value = this.buffer.shift()!;
+      this.consumed();
+      return Promise.resolve({ value, done: false });
+    }
+    if (this.error) {
+      return Promise.reject(this.error);
+    }
+    if (this.done) {
+      return Promise.resolve({ value: undefined, done: true });
+    }
+    if (this.waiting) {
+      return Promise.reject(new Error('Concurrent next() calls on a stream'));
+    }
+
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.cancel(
+          new Error(`Stream chunk timeout after ${this.options.chunkTimeout}ms`)
+        );
+      }, this.options.chunkTimeout);
+    });
+  }
+
+  /**
+   * 提前结束迭代（for await 中 break 时自动调用），会取消流
+   */
+  async return(): Promise<IteratorResult<T>> {
+    this.cancel();
+    return { value: undefined, done: true };
+  }
+
+  /**
+   * 取消流，通知服务器停止写入
+   * @param reason - 取消原因，未消费的 next() 和 result 以此失败
+   */
+  cancel(reason: Error = new Error('Stream cancelled')): void {
+    if (this.done) return;
+    this.fail(reason);
+    this.buffer = [];
+    this.options.onCancel();
+  }
+
+  /**
+   * 收到分块
+   */
+  push(chunk: T): void {
+    if (this.done) return;
+    if (this.waiting) {
+      this.clearTimer();
+      const { resolve } = this.waiting;
+      this.waiting = null;
+      this.consumed();
+      resolve({ value: chunk, done: false });
+      return;
+    }
+    this.buffer.push(chunk);
+  }
+
+  /**
+   * 收到最终回复
+   * 状态码大于等于 400 时，迭代在读完已收到的分块后以错误结束
+   */
+  finish(message: Message): void {
+    if (this.done) return;
+    this.done = true;
+    if (message.code >= 400) {
+      this.error = new Error(
+        message.msg || `Stream failed with code ${message.code}`
+      );
+    }
+    this.resolveResult(message);
+    this.settleWaiting();
+  }
+
+  /**
+   * 流失败（断开连接、超时等）
+   */
+  fail(error: Error): void {
+    if (this.done) return;
+    this.done = true;
+    this.error = error;
+    this.rejectResult(error);
+    this.settleWaiting();
+  }
+
+  /**
+   * 分块被消费后累计确认，每消费半个窗口确认一次
+   */
+  private consumed(): void {
+    if (this.done) return;
+    this.unacked++;
+    if (this.unacked >= Math.ceil(this.options.window / 2)) {
+      this.options.onAck(this.unacked);
+      this.unacked = 0;
+    }
+  }
+
+  private settleWaiting(): void {
+    this.clearTimer();
+    if (!this.waiting) return;
+    const { resolve, reject } = this.waiting;
+    this.waiting = null;
+    if (this.error) {
+      reject(this.error);
+    } else {
+      resolve({ value: undefined, done: true });
+    }
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
@@ -0,0 +1,28 @@
+import { afterEach, beforeEach, setSystemTime } from 'bun:test';
+
+/**
+ * 等待所有已排队的微任务执行完
+ */
+export const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+/**
+ * 在当前文件的每个测试中使用假时钟（只影响 Date.now，不影响定时器）
+ * @returns 推进假时钟的函数
+ */
+export function useFakeClock(): (ms: number) => void {
+  let now = 0;
+
+  beforeEach(() => {
+    now = Date.UTC(2024, 0, 1);
+    setSystemTime(new Date(now));
+  });
+
+  afterEach(() => {
+    setSystemTime();
+  });
+
+  return (ms) => {
+    now += ms;
+    setSystemTime(new Date(now));
+  };
+}
@@ -1,11 +1,41 @@
+import type { Schema } from './schema';
+
 export interface User {
   id: string;
   groups: string[];
+  /** 用户附加信息（由 authenticate 钩子返回，默认为空对象） */
+  meta: Record<string, any>;
+}
+
+/**
+ * 连接认证结果
+ * authenticate 钩子返回此对象表示认证通过，用于初始化 User
+ */
+export interface AuthResult {
+  /** 客户端 ID，不提供时自动生成 */
+  id?: string;
+  /** 初始加入的组 */
+  groups?: string[];
+  /** 用户附加信息 */
+  meta?: Record<string, any>;
 }
-export interface Message {
+
+/**
+ * 连接认证拒绝信息
+ * authenticate 钩子返回此对象表示拒绝连接，code 会作为 HTTP 状态码返回
+ */
+export interface AuthRejection {
+  /** HTTP 状态码，如 401、403 */
   code: number;
-  data: any;
+  /** 拒绝原因 */
+  msg?: string;
+}
+export interface Message<T = any> {
+  code: number;
+  data: T;
   msg: string;
+  /** 回复携带的头部信息（仅出现在 fetch 收到的回复中） */
+  header?: Record<string, string>;
 }
 export interface FetchConfig {
   maxWait?: number;
@@ -14,6 +44,236 @@ export interface FetchConfig {
   code?: number;
   /** 消息描述，默认为 'success' */
   msg?: string;
+  /** 请求头部信息，会与实例的 defaultHeaders 合并（同名时覆盖） */
+  headers?: Record<string, string>;
+  /** 消息在离线队列中的有效期（毫秒），仅客户端启用离线队列时生效 */
+  expire?: number;
+  /**
+   * 多目标请求的结果模式（仅服务器端 fetch / fetchByGroup）
+   * - 'all'：默认，任意一个目标失败则整体失败，返回所有回复
+   * - 'allSettled'：等待所有目标完成，返回每个目标的 FetchResult
+   * - 'quorum'：收到 quorum 个成功回复后立即返回这些 FetchResult
+   * - 'race'：收到第一个成功回复后立即返回该 FetchResult
+   */
+  mode?: 'all' | 'allSettled' | 'quorum' | 'race';
+  /** quorum 模式下需要的成功回复数量，默认为目标数量 */
+  quorum?: number;
+  /**
+   * 流式请求的接收窗口（仅客户端 fetchStream）
+   * 服务器最多发送多少个未被消费的分块，超过时服务器端的 write 会等待，默认为 16
+   */
+  highWaterMark?: number;
+  /** 流式请求等待下一个分块的超时时间（毫秒，仅客户端 fetchStream），默认为 maxWait */
+  chunkTimeout?: number;
+  /**
+   * 取消信号
+   * 中止后请求立即以 signal.reason 失败，并通知对方取消，对方处理器的 signal 随之中止
+   */
+  signal?: AbortSignal;
+  /**
+   * 自动重试策略（仅客户端 fetch）
+   * 启用后请求头会携带幂等键，服务器对重复的请求直接返回缓存的回复
+   */
+  retry?: RetryConfig;
+  /**
+   * 回复数据的校验器（Standard Schema 或 JSON Schema）
+   * 校验成功回复（状态码小于 400）的 data，失败时请求以 ValidationError 失败
+   */
+  schema?: Schema;
+}
+
+/**
+ * 可重试的失败情况
+ * - 'timeout'：等待回复超时
+ * - 'disconnect'：连接断开导致请求无法发送
+ * - '5xx'：服务器回复的状态码大于等于 500
+ */
+export type RetryCondition = 'timeout' | 'disconnect' | '5xx';
+
+/**
+ * 请求重试配置
+ */
+export interface RetryConfig {
+  /** 最大重试次数（不含首次请求） */
+  count: number;
+  /**
+   * 退避策略，默认为 'exponential'
+   * - 'fixed'：每次等待 delay
+   * - 'exponential'：第 n 次重试等待 delay * 2^(n-1)
+   * - 函数：根据重试次数（从 1 开始）返回等待时间（毫秒）
+   */
+  backoff?: 'fixed' | 'exponential' | ((attempt: number) => number);
+  /** 基础等待时间（毫秒），默认为 1000 */
+  delay?: number;
+  /** 最大等待时间（毫秒），默认为 30000 */
+  maxDelay?: number;
+  /** 可重试的失败情况，默认为全部 */
+  retryOn?: RetryCondition[];
+}
+
+/**
+ * 客户端自动重连策略
+ */
+export interface ReconnectConfig {
+  /**
+   * 退避策略，默认为 'exponential'
+   * - 'fixed'：每次等待 delay
+   * - 'exponential'：第 n 次重连等待 delay * 2^(n-1)
+   * - 函数：根据重连次数（从 1 开始）返回等待时间（毫秒），返回 null 时停止重连
+   */
+  backoff?: 'fixed' | 'exponential' | ((attempt: number) => number | null);
+  /** 基础等待时间（毫秒），默认为 1000 */
+  delay?: number;
+  /** 最大等待时间（毫秒），默认为 30000 */
+  maxDelay?: number;
+  /**
+   * 随机抖动比例（0 ~ 1），默认为 0.5
+   * 实际等待时间在 delay * (1 - jitter) 和 delay 之间随机，避免大量客户端同时重连；
+   * 不作用于自定义的 backoff 函数
+   */
+  jitter?: number;
+}
+
+/**
+ * 多目标请求中单个目标的结果
+ */
+export interface FetchResult<T = any> {
+  /** 目标客户端 ID */
+  id: string;
+  /** 'fulfilled' 表示收到回复，'rejected' 表示失败（客户端不存在、超时、断开等） */
+  status: 'fulfilled' | 'rejected';
+  /** 客户端的回复（status 为 'fulfilled' 时存在） */
+  body?: Message<T>;
+  /** 失败原因（status 为 'rejected' 时存在） */
+  error?: Error;
+}
+
+/**
+ * 广播配置
+ */
+export interface BroadcastOptions {
+  /** 目标组名或组名数组，不提供时发送给所有客户端 */
+  groups?: string[] | string;
+  /** 排除的客户端 ID 或 ID 数组（如消息发送者自己） */
+  except?: string[] | string;
+  /** 自定义过滤函数，返回 false 的客户端不会收到消息 */
+  filter?: (user: User) => boolean;
+}
+
+/**
+ * 心跳配置
+ * 服务器定期向客户端发送 ping，连续未收到 pong 的次数达到阈值时断开连接
+ */
+export interface HeartbeatConfig {
+  /** 心跳间隔（毫秒），设为 0 时关闭心跳 */
+  interval: number;
+  /** 允许连续未响应 pong 的最大次数 */
+  maxMissedPongs: number;
+}
+
+/**
+ * 幂等请求配置
+ * 携带幂等键的请求，服务器会按（客户端 ID, 幂等键）缓存回复，重复的请求直接返回缓存的回复
+ */
+export interface IdempotencyConfig {
+  /** 是否启用回复缓存 */
+  enabled: boolean;
+  /** 回复的缓存时间（毫秒） */
+  ttl: number;
+  /** 最多缓存的回复数量，超过时淘汰最早的回复 */
+  maxEntries: number;
+}
+
+/**
+ * 令牌桶限流规则
+ */
+export interface RateLimitRule {
+  /** 桶容量，即允许的突发请求数 */
+  capacity: number;
+  /** 每秒补充的令牌数 */
+  refillPerSecond: number;
+}
+
+/**
+ * 限流配置
+ * 每个客户端按规则各自计数，一个事件请求需要所有适用的规则都有剩余令牌才会被处理
+ */
+export interface RateLimitConfig {
+  /** 所有事件共用的限制 */
+  global?: RateLimitRule;
+  /** 按事件名的限制，key 为事件名或模式（如 'chat:*'） */
+  events?: Record<string, RateLimitRule>;
+  /** 按组的限制，只对组内的客户端生效，key 为组名 */
+  groups?: Record<string, RateLimitRule>;
+  /** 统计窗口内被限流的次数达到此值时断开连接（断开类型为 'rate_limit'），设为 0 时不断开 */
+  maxViolations: number;
+  /** 被限流次数的统计窗口（毫秒） */
+  violationWindow: number;
+}
+
+/**
+ * 事件处理的并发配置（按连接）
+ * - 'parallel'：收到事件后立即处理，同一客户端的事件并发执行
+ * - 'serial'：同一客户端的事件严格按到达顺序逐个处理
+ * - 'limited'：同一客户端最多同时处理 limit 个事件，按到达顺序开始处理
+ */
+export interface ConcurrencyConfig {
+  mode: 'parallel' | 'serial' | 'limited';
+  /** 'limited' 模式下同时处理的最大事件数 */
+  limit: number;
+  /** 每个连接排队等待处理的最大事件数，超出时回复 503 */
+  maxQueue: number;
+}
+
+/**
+ * 会话恢复配置
+ * 客户端异常断开后，在宽限期内携带 ID 和恢复令牌重连即可恢复原会话
+ */
+export interface ResumeConfig {
+  /** 是否启用会话恢复 */
+  enabled: boolean;
+  /** 断开后保留会话的宽限期（毫秒） */
+  gracePeriod: number;
+}
+
+/**
+ * 关闭连接的配置
+ */
+export interface CloseOptions {
+  /** 关闭码，如 CloseCode.KICKED，不提供时不发送关闭码（对方收到 1005） */
+  code?: number;
+  /** 关闭原因，UTF-8 编码后不能超过 123 字节 */
+  reason?: string;
+}
+
+/**
+ * 连接断开的信息
+ */
+export interface DisconnectInfo {
+  /** 关闭码，异常断开（如网络中断、心跳超时）时为 1006 */
+  code: number;
+  /** 关闭原因，可能为空字符串 */
+  reason: string;
+}
+
+/**
+ * 客户端的连接断开信息
+ */
+export interface ClientDisconnectInfo extends DisconnectInfo {
+  /** 是否会自动重连（关闭码在 noReconnectCodes 中或达到最大重连次数时为 false） */
+  reconnect: boolean;
+}
+
+/**
+ * 关闭服务器的配置
+ */
+export interface ShutdownOptions {
+  /** 等待处理中的事件和请求完成的最长时间（毫秒），超时后直接断开，默认 10000 */
+  timeout?: number;
+  /** 建议客户端在断开后等待多久再重连（毫秒），客户端会在此基础上再随机延迟最多同样的时长，默认 5000 */
+  reconnectDelay?: number;
+  /** 关闭原因，随 _system_shutdown 事件和关闭帧发送给客户端 */
+  reason?: string;
 }
 
 /**
@@ -21,8 +281,15 @@ export interface FetchConfig {
  * 用于 WebSocket 通信的消息结构
  */
 export interface InternalMessage {
-  /** 消息类型：'event' 表示事件消息，'reply' 表示回复消息 */
-  type: 'event' | 'reply';
+  /**
+   * 消息类型
+   * - 'event'：事件消息
+   * - 'reply'：回复消息（流式请求的最终回复）
+   * - 'chunk'：流式回复的分块
+   * - 'ack'：确认已消费的分块数（body.data）
+   * - 'cancel'：取消请求（包括流式请求）
+   */
+  type: 'event' | 'reply' | 'chunk' | 'ack' | 'cancel';
   /** 事件名称（当 type 为 'event' 时必需） */
   event?: string;
   /** 请求 ID（用于匹配请求和回复） */
@@ -31,6 +298,8 @@ export interface InternalMessage {
   body: Message;
   /** 消息头部信息（可选，用于传递认证、元数据等） */
   header?: Record<string, string>;
+  /** 请求流式回复时存在，值为接收窗口大小 */
+  stream?: number;
 }
 
 /**
@@ -43,4 +312,6 @@ export interface PendingFetch {
   timeout: ReturnType<typeof setTimeout>;
   /** 客户端 ID，用于快速清理该客户端的所有待处理请求 */
   clientId: string;
+  /** 已发送的请求消息，会话恢复后重新发送 */
+  message?: InternalMessage;
 }
@@ -26,6 +26,9 @@ masSocket.onDisconnect = (client, type) => {
   console.log(`❌ 客户端断开: ${client.id}, 类型: ${type}`);
 };
 
+// 主题订阅授权 - 示例：禁止订阅 private/ 开头的主题
+masSocket.canSubscribe = (_user, topic) => !topic.startsWith('private/');
+
 // 注册中间件 - 日志记录
 masSocket.use(async ({ body, user, fetchId, header, event }) => {
   console.log(`📨 [中间件] 收到消息来自 ${user.id}:`, {
@@ -173,6 +176,41 @@ masSocket.on('broadcast', async ({ reply, body, user }) => {
   }
 });
 
+// 注册事件处理器 - 发布主题消息
+masSocket.on('publish', async ({ reply, body, user }) => {
+  const topic = body.data?.topic;
+  const message = body.data?.message;
+
+  if (!topic || !message) {
+    reply(null, 400, 'Topic and message are required');
+    return;
+  }
+
+  const count = masSocket.publish(topic, {
+    from: user.id,
+    message,
+    timestamp: new Date().toISOString(),
+  });
+  console.log(`📰 [Publish] ${user.id} 向主题 ${topic} 发布: ${message}`);
+
+  reply({ topic, count }, 200, 'Published');
+});
+
+// 注册事件处理器 - 流式倒计时（客户端通过 fetchStream 逐秒接收）
+masSocket.on('countdown', async ({ body, stream }) => {
+  const from = Math.min(Number(body.data?.from) || 5, 60);
+
+  for (let i = from; i > 0; i--) {
+    if (stream.cancelled) {
+      console.log(`⏹️  [Countdown] 客户端取消了倒计时`);
+      return;
+    }
+    await stream.write(i);
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+  }
+  stream.end({ done: true });
+});
+
 // 注册事件处理器 - 接收广播消息
 masSocket.on('broadcast-message', async ({ reply, body }) => {
   console.log(`📨 [Broadcast Message] 收到广播:`, body.data);
@@ -266,6 +304,8 @@ app.get('/', (req, res) => {
           <li><code>get-user-info</code> - 获取用户信息</li>
           <li><code>join-group</code> - 加入组</li>
           <li><code>broadcast</code> - 广播消息</li>
+          <li><code>publish</code> - 发布主题消息</li>
+          <li><code>countdown</code> - 流式倒计时</li>
         </ul>
       </div>
       <div class="info">
@@ -294,6 +334,8 @@ const server = app.listen(PORT, () => {
   console.log(`   - get-user-info: 获取用户信息`);
   console.log(`   - join-group: 加入组`);
   console.log(`   - broadcast: 广播消息`);
+  console.log(`   - publish: 发布主题消息`);
+  console.log(`   - countdown: 流式倒计时`);
   console.log(`\n💡 提示: 打开 test/index.html 进行调试\n`);
 });
 